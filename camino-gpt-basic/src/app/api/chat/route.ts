@@ -1,28 +1,150 @@
 // app/api/chat/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
 import crypto from "node:crypto";
 
 import { buildPlan } from "@/lib/planner";
-import { validatePlan, executePlan } from "@/lib/executor";
+import { validatePlan, executePlan, findPauseIndex, type StepLog, type StepOutput } from "@/lib/executor";
 import type { ToolContext } from "@/lib/toolRegistry";
-import { recordPlan, appendSteps, getPlan } from "@/lib/obs";
+import { recordPlan, appendSteps, getPlan, setNextIndex } from "@/lib/obs";
 import type { Itinerary } from "@/lib/leg";
-import { formatDistanceWithUnit } from "@/lib/utils";
-
-const MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import type { CaminoPreferences } from "@/lib/preferences";
+import { formatMoney } from "@/lib/utils";
+import { editsFromText, intentFromText } from "@/lib/intent";
+import { splitStages, itineraryToGeojson, itineraryToMarkers } from "@/lib/stages/splitter";
+import { applyEdits } from "@/lib/stages/edit";
+import { solve, explainInfeasible, type Infeasible } from "@/lib/stages/solver";
+import { isRouteId } from "@/lib/stages/registry";
+import { withEffort } from "@/lib/effort";
+import { withFoodStops } from "@/lib/places/food";
+import { budgetFromText, summarizeCosts, withCosts, type CostOptions, type CostSummary } from "@/lib/cost";
+import { checkCompostela } from "@/lib/compostela";
+import { isIsoDate, withDates } from "@/lib/calendar";
+import type { RouteId } from "@/lib/stages/types";
+import { ItinerarySchema, type ItineraryEdit, type Plan, type PlanStepT } from "@/lib/schemas";
+import type { LodgingSkip } from "@/lib/booking/lodging";
+import type { Reservation } from "@/lib/booking/types";
+import { synthesizeAnswer, type Answer } from "@/lib/answer";
+import { getPlannerProvider } from "@/lib/llm/provider";
 
 const now = () => Date.now();
 
-/** Fast fallback for timeouts / bad model minutes */
-const DEMO_ITINERARY: Itinerary = [
-    { day: 1, from: "Sarria", to: "Portomarín", km: 22, toLat: 42.7812, toLon: -7.4143 },
-    //   { day: 2, from: "Portomarín", to: "Palas de Rei", km: 25, lat: 42.8741, lon: -7.8687 },
-    //   { day: 3, from: "Palas de Rei", to: "Melide", km: 15, lat: 42.9142, lon: -8.0129 },
-    //   { day: 4, from: "Melide", to: "Arzúa", km: 14, lat: 42.9290, lon: -8.1585 },
-    { day: 2, from: "Arzúa", to: "Santiago de Compostela", km: 39, toLat: 42.8806, toLon: -8.5449 },
-];
+/** The whole turn: the planner (20s) and executor (10s) guards, and whatever the answer can fit in after them */
+const REQUEST_BUDGET_MS = 30_000;
+
+type ChatTurn = { role?: string; content?: string };
+
+const lastUserText = (messages: ChatTurn[]) =>
+    String([...messages].reverse().find((m) => m?.role === "user")?.content ?? "");
+
+/** Cost tier and target total: the planner's read of the ask, else a euro amount in the ask itself */
+function costOptions(messages: ChatTurn[], plan?: Plan): CostOptions {
+    const target = Number(plan?.steps.find((s) => s.tool === "map.drawRoute")?.args?.targetTotalEur);
+    return { tier: plan?.budget, targetEur: target > 0 ? target : budgetFromText(lastUserText(messages)) };
+}
+
+/** Fast fallback for timeouts / bad model minutes: the offline solver on a best-effort read of the ask */
+function fallbackItinerary(
+    messages: ChatTurn[], preferences?: Partial<CaminoPreferences>, route?: RouteId, startDate?: string
+): { plan: Itinerary; infeasible?: Infeasible } {
+    const intent = intentFromText(lastUserText(messages));
+    const targetStageKm = intent.targetStageKm ?? preferences?.targetStageKm;
+    const costs = costOptions(messages);
+    const solved = solve({
+        ...intent, route: route ?? intent.route, targetStageKm, startDate: intent.startDate ?? startDate, preferences,
+    });
+    if (solved.ok) return { plan: withCosts(withFoodStops(withEffort(solved.itinerary), preferences), preferences, costs) };
+
+    console.warn(`[fallback] infeasible intent=${JSON.stringify(intent)} err=${solved.infeasible.reason}`);
+    const nearest = solved.infeasible.alternatives[0]?.itinerary ?? splitStages({ route, targetStageKm, startDate, preferences });
+    return { plan: withCosts(withFoodStops(withEffort(nearest), preferences), preferences, costs), infeasible: solved.infeasible };
+}
+
+/** "Estimated €612 for the trip, within your €700 budget (4 nights in private rooms)." */
+function costLine(cost: CostSummary): string {
+    const money = (eur: number) => formatMoney(eur * cost.rate, cost.currency);
+    if (cost.targetEur === undefined) return "";
+    if (cost.overEur) {
+        return `Even with albergue beds every night this comes to about ${money(cost.totalEur)}, ${money(cost.overEur)} over your ${money(cost.targetEur)} budget.`;
+    }
+    const rooms = cost.roomNights ? ` (${cost.roomNights} night${cost.roomNights > 1 ? "s" : ""} in private rooms)` : "";
+    return `Estimated ${money(cost.totalEur)} for the trip, within your ${money(cost.targetEur)} budget${rooms}.`;
+}
+
+/** One line per lodging step: what was held/booked and which nights were not, or why the step failed */
+function lodgingSummary(outputs: StepOutput[], logs: StepLog[]): string {
+    const verbs: Record<string, string> = { "lodging.hold": "Held", "lodging.confirm": "Booked", "lodging.cancel": "Cancelled" };
+    const failVerbs: Record<string, string> = { "lodging.hold": "hold", "lodging.confirm": "book", "lodging.cancel": "cancel" };
+    const lines = outputs
+        .filter((o) => o.tool in verbs)
+        .map((o) => {
+            const { reservations, skipped } = o.data as { reservations: Reservation[]; skipped: LodgingSkip[] };
+            const done = reservations.filter((r) => r.status !== "expired");
+            const beds = done.length ? `${verbs[o.tool]} ${done.length} night${done.length > 1 ? "s" : ""}` : `${verbs[o.tool]} nothing`;
+            const until = o.tool === "lodging.hold" && done[0]?.heldUntil
+                ? ` (held for ${Math.max(0, Math.round((Date.parse(done[0].heldUntil) - Date.now()) / 60_000))} min)`
+                : "";
+            const misses = skipped.map((s) => `Day ${s.day}: ${s.reason}`).join("; ");
+            return `${beds}${until}.${misses ? ` Not done: ${misses}.` : ""}`;
+        });
+    const failed = logs
+        .filter((l) => l.tool in failVerbs && l.status === "error")
+        .map((l) => `Could not ${failVerbs[l.tool]}: ${l.errorCode?.replace(/\.$/, "") ?? "unknown error"}.`);
+    return [...lines, ...failed].join("\n");
+}
+
+/** "Exported camino-sarria-santiago-de-compostela.ics." per export step (the file downloads in the browser) */
+function exportSummary(outputs: StepOutput[]): string {
+    return outputs
+        .filter((o) => o.tool.startsWith("export."))
+        .map((o) => `Exported ${(o.data as { filename: string }).filename}.`)
+        .join("\n");
+}
+
+/** What itinerary.edit changed, or why it couldn't */
+function editSummary(outputs: StepOutput[], logs: StepLog[]): string {
+    const changed = outputs
+        .filter((o) => o.tool === "itinerary.edit")
+        .flatMap((o) => (o.data as { changes: string[] }).changes);
+    const failed = logs
+        .filter((l) => l.tool === "itinerary.edit" && l.status === "error")
+        .map((l) => `I couldn't change the plan: ${l.errorCode}.`);
+    return [...changed, ...failed].join("\n");
+}
+
+/** Offline edit of the shown itinerary (planner unavailable), in the same shape as a planned reply */
+function editedResponse(
+    shown: Itinerary, edits: ItineraryEdit[], messages: ChatTurn[], preferences?: Partial<CaminoPreferences>, startDate?: string
+) {
+    let plan = shown;
+    let reply: string;
+    try {
+        const edited = applyEdits(shown, edits, preferences);
+        plan = withCosts(withFoodStops(withDates(withEffort(edited.itinerary), edited.itinerary[0]?.date ?? startDate), preferences), preferences, costOptions(messages));
+        reply = edited.changes.join("\n");
+    } catch (e) {
+        reply = `I couldn't change the plan: ${e instanceof Error ? e.message : String(e)}.`;
+    }
+    return {
+        reply,
+        plan,
+        cost: summarizeCosts(plan, preferences, costOptions(messages)),
+        compostela: checkCompostela(plan),
+        actions: [
+            { type: "clearRoute" },
+            { type: "drawRoute", geojson: itineraryToGeojson(plan) },
+            itineraryToMarkers(plan),
+        ],
+    };
+}
+
+/** Diagnosis for the client: what broke and what would work (itineraries stay server-side) */
+function infeasibleSummary(infeasible: Infeasible) {
+    return {
+        reason: infeasible.reason,
+        conflicts: infeasible.conflicts,
+        alternatives: infeasible.alternatives.map(({ change, options }) => ({ change, options })),
+    };
+}
 
 function ok<T>(body: T) {
     return NextResponse.json(body);
@@ -43,7 +165,7 @@ function coalesceMarkers(actions: any[] | undefined | null): Marker[] | null {
     if (!Array.isArray(actions)) return null;
     const lists: Marker[][] = [];
     for (const a of actions) {
-        if (a && a.type === "drawMarkers" && Array.isArray(a.markers)) {
+        if (a && a.type === "drawMarkers" && !a.layer && Array.isArray(a.markers)) {
             lists.push(a.markers as Marker[]);
         }
     }
@@ -76,40 +198,12 @@ function itineraryFromMarkers(markers: Marker[]): Itinerary {
     }));
 }
 
-function markersFromItinerary(plan: Itinerary): { type: "drawMarkers"; replace: true; markers: Marker[] } {
-    const markers: Marker[] = [];
-    
-    // Add Day 0 starting marker if we have starting coordinates
-    console.log ("FROMLAT ", plan[0]);
-    if (plan.length > 0 && plan[0].fromLat !== undefined && plan[0].fromLon !== undefined) {
-        markers.push({
-            lat: plan[0].fromLat,
-            lon: plan[0].fromLon,
-            title: plan[0].from,
-            subtitle: "Day 0 · Start",
-        });
-    }
-    
-    // Add destination markers for each day
-    for (const leg of plan) {
-        markers.push({
-            lat: leg.toLat,
-            lon: leg.toLon,
-            title: leg.to,
-            subtitle: `Day ${leg.day}${leg.km ? ` · ${formatDistanceWithUnit(leg.km, "")}` : ""}`,
-        });
-    }
-    
-    return {
-        type: "drawMarkers",
-        replace: true as const,
-        markers,
-    };
-}
-
 export async function POST(req: NextRequest) {
     try {
-        const { messages, preferences, approve, plan: planFromClient, planId: resumePlanId } = await req.json();
+        const { messages, preferences, approve, plan: planFromClient, planId: resumePlanId, route: routeFromClient, startDate: startDateFromClient, itinerary: itineraryFromClient } = await req.json();
+        const route: RouteId | undefined = isRouteId(routeFromClient) ? routeFromClient : undefined;
+        const shown = ItinerarySchema.safeParse(itineraryFromClient); // what the Draft Plan shows (booking steps act on it)
+        const startDate = [startDateFromClient, preferences?.startDate].find(isIsoDate);
         const reqStart = now();
 
         if (!Array.isArray(messages)) {
@@ -118,6 +212,7 @@ export async function POST(req: NextRequest) {
 
         let planId: string = resumePlanId ?? crypto.randomUUID();
         let execPlan: any;
+        let startIndex = 0;
 
         console.log(`[api.chat] start planId=${planId} msgs=${messages.length}`);
         const msgChars = messages.reduce((n: number, m: any) => n + (m?.content?.length ?? 0), 0);
@@ -129,6 +224,7 @@ export async function POST(req: NextRequest) {
             const rec = resumePlanId ? getPlan(resumePlanId) : undefined;
             execPlan = rec?.plan ?? planFromClient;
             planId = resumePlanId ?? planId;
+            startIndex = rec?.nextIndex ?? 0; // resume where the paused run stopped
 
             try {
                 execPlan = validatePlan(execPlan);
@@ -140,38 +236,54 @@ export async function POST(req: NextRequest) {
             const ac = new AbortController();
 
             try {
-                const built = await withTimeout(
+                const planner = getPlannerProvider();
+                const { plan: built, attempts } = await withTimeout(
                     buildPlan({
-                        openai,
-                        model: MODEL,
+                        provider: planner,
                         messages: messages.map((m: any) => ({ role: m.role, content: m.content })),
                         preferences,
+                        itinerary: shown.success ? shown.data : undefined,
                         signal: ac.signal, // ← true upstream abort if we time out
                     }),
                     20_000, // increased timeout for planner
                     "planner"
                 );
-                console.log(`[planner] ok planId=${planId} ms=${now() - tPlanner}`);
+                console.log(`[planner] ok planId=${planId} ms=${now() - tPlanner} attempts=${attempts.length}`);
                 execPlan = validatePlan(built);
-                recordPlan(planId, { plan: execPlan, model: MODEL, createdAt: Date.now(), steps: [] });
+                recordPlan(planId, { plan: execPlan, model: `${planner.name}:${planner.model}`, createdAt: Date.now(), steps: [], attempts });
             } catch (e: any) {
                 try { ac.abort(); } catch { }
                 console.warn(`[planner] error planId=${planId} ms=${now() - tPlanner} err=${String(e)}`);
 
-                // ⛑️ Fast fallback: return pins + a usable plan immediately
-                const plan = DEMO_ITINERARY;
+                // A follow-up on the plan on screen ("swap Melide for Boente"): edit it rather than start over
+                const edits = shown.success ? editsFromText(lastUserText(messages)) : [];
+                if (shown.success && edits.length) return ok({ planId, ...editedResponse(shown.data, edits, messages, preferences, startDate) });
+
+                // ⛑️ Fast fallback: return route + pins + a usable plan immediately
+                const { plan, infeasible } = fallbackItinerary(messages, preferences, route, startDate);
+                const cost = summarizeCosts(plan, preferences, costOptions(messages));
                 return ok({
                     planId,
-                    reply: "I generated a quick draft plan to keep things moving. You can refine it with another prompt.",
+                    reply: infeasible
+                        ? explainInfeasible(infeasible)
+                        : ["I generated a quick draft plan to keep things moving. You can refine it with another prompt.", costLine(cost)]
+                            .filter(Boolean).join("\n"),
                     plan,
-                    actions: [markersFromItinerary(plan)],
+                    cost,
+                    infeasible: infeasible ? infeasibleSummary(infeasible) : undefined,
+                    compostela: checkCompostela(plan),
+                    actions: [
+                        { type: "clearRoute" },
+                        { type: "drawRoute", geojson: itineraryToGeojson(plan) },
+                        itineraryToMarkers(plan),
+                    ],
                 });
             }
         }
 
-        // 2) If planner wants a pause, return draft without executing
-        const hasPause = Array.isArray(execPlan?.steps) && execPlan.steps.some((s: any) => s.pauseForUser);
-        if (hasPause && !approve) {
+        // 2) If the planner pauses before anything can run, return the draft without executing;
+        //    otherwise the steps before the pause run now and the rest after approval
+        if (!approve && findPauseIndex(execPlan) === 0) {
             console.log(`[planner] paused planId=${planId}`);
             return ok({ planId, draftPlan: execPlan, reply: "I prepared a draft plan. Review and approve to run." });
         }
@@ -179,21 +291,23 @@ export async function POST(req: NextRequest) {
         // 3) Execute deterministically
         console.log(`[debug] About to execute plan with ${execPlan?.steps?.length || 0} steps:`, 
                    execPlan?.steps?.map((s: any) => s.tool) || []);
-        const ctx: ToolContext = {};
+        const answersOnly = execPlan.steps.every((s: PlanStepT) => s.tool === "rag.search"); // a question, not a plan change
+        const ctx: ToolContext = { preferences, route, startDate, itinerary: shown.success ? shown.data : undefined };
         const tExec = now();
         const result = await executePlan({
             plan: execPlan,
             ctx,
             timeoutMs: 10_000,
             maxRetries: 1,
-            startIndex: 0,
+            startIndex,
             honorPause: !approve,
-            prependClear: true,
+            prependClear: startIndex === 0 && !answersOnly,
         });
         console.log(
             `[executor] ok planId=${planId} ms=${now() - tExec} actions=${Array.isArray(result.actions) ? result.actions.length : 0} paused=${!!result.paused}`
         );
         appendSteps(planId, result.logs);
+        if (result.paused) setNextIndex(planId, result.nextIndex);
 
         // 4) Build an Itinerary for the client + a single authoritative drawMarkers
 
@@ -238,41 +352,73 @@ export async function POST(req: NextRequest) {
             }
         }
 
-        // Fallback B: demo itinerary (dev safety net)
-        if (!itinerary) {
-            console.log("[debug] Fallback B triggered - using demo itinerary");
-            itinerary = DEMO_ITINERARY;
-        } else {
-            console.log(`[debug] Using itinerary with ${itinerary.length} legs`);
+        // The solver's diagnosis when the request could not be met as asked
+        let infeasible = result.outputs
+            .map((o) => (o.data as { infeasible?: Infeasible } | undefined)?.infeasible)
+            .find(Boolean);
+
+        // Fallback B: offline stage splitter (dev safety net); a plain question needs no itinerary
+        const splitterFallback = !itinerary && !answersOnly;
+        if (splitterFallback) {
+            const fallback = fallbackItinerary(messages, preferences, route, startDate);
+            itinerary = fallback.plan;
+            infeasible ??= fallback.infeasible;
+        } else if (itinerary) {
+            itinerary = withFoodStops(withDates(withEffort(itinerary), itinerary[0]?.date ?? startDate), preferences);
+            itinerary = withCosts(itinerary, preferences, costOptions(messages, execPlan));
         }
+        const cost = itinerary?.length ? summarizeCosts(itinerary, preferences, costOptions(messages, execPlan)) : undefined;
 
         // Only synthesize a single drawMarkers from itinerary if it has coords;
         // otherwise keep existing actions' markers (so we don't emit invalid markers).
         let actionsOut: any[] = [];
-        if (hasCoords(itinerary)) {
-            const singleMarkersAction = markersFromItinerary(itinerary);
+        if (itinerary && hasCoords(itinerary)) {
+            const singleMarkersAction = itineraryToMarkers(itinerary);
             const otherActions = Array.isArray(result.actions)
-                ? result.actions.filter((a: any) => a?.type !== "drawMarkers")
+                ? result.actions.filter((a: any) => a?.type !== "drawMarkers" || a.layer)
                 : [];
-            actionsOut = [...otherActions, singleMarkersAction];
+            // Booking-only steps reuse the shown itinerary: redraw its route after the prepended clear
+            const reusedShown = !!ctx.itinerary && result.itinerary === ctx.itinerary && startIndex === 0 && !answersOnly;
+            const redraw = reusedShown && !otherActions.some((a: any) => a?.type === "drawRoute")
+                ? [{ type: "drawRoute", geojson: itineraryToGeojson(itinerary) }]
+                : [];
+            actionsOut = [...otherActions, ...redraw, singleMarkersAction];
         } else {
             actionsOut = Array.isArray(result.actions) ? result.actions : [];
         }
 
+        const done = [editSummary(result.outputs, result.logs), lodgingSummary(result.outputs, result.logs), exportSummary(result.outputs)]
+            .filter(Boolean).join("\n");
+
+        // Questions and place lookups: write the reply from what the tools found, with citations
+        const answer: Answer | undefined = result.outputs.some((o) => o.tool === "rag.search" || o.tool === "places.search")
+            ? await synthesizeAnswer({ provider: getPlannerProvider(), question: lastUserText(messages), outputs: result.outputs, preferences, timeoutMs: REQUEST_BUDGET_MS - (now() - reqStart) })
+            : undefined;
         const reply =
-            actionsOut.length > 0
-                ? "Plotted map updates and listed your draft plan."
+            infeasible
+                ? explainInfeasible(infeasible)
                 : result.paused
-                    ? "Plan is paused for your approval."
-                    : "Completed your request.";
+                ? [done, "The next step needs your approval: review it below."].filter(Boolean).join("\n")
+                : done
+                ? done
+                : answer
+                ? answer.reply
+                : actionsOut.length > 0
+                ? ["Plotted map updates and listed your draft plan.", cost ? costLine(cost) : ""].filter(Boolean).join("\n")
+                : "Completed your request.";
 
-        console.log(`[api.chat] done planId=${planId} ms=${now() - reqStart}`);
+        console.log(`[api.chat] done planId=${planId} ms=${now() - reqStart} legs=${itinerary?.length ?? 0}${splitterFallback ? " fallback=splitter" : ""}`);
 
         return ok({
             planId,
             reply,
-            plan: itinerary,      // expose Itinerary to the client
+            plan: itinerary ?? undefined, // expose Itinerary to the client
+            compostela: itinerary?.length ? checkCompostela(itinerary) : undefined,
+            cost,
+            sources: answer && reply === answer.reply ? answer.sources : undefined,
+            infeasible: infeasible ? infeasibleSummary(infeasible) : undefined,
             actions: actionsOut,  // exactly one drawMarkers with replace:true when we have coords
+            draftPlan: result.paused ? execPlan : undefined,
         });
 
     } catch (e: any) {
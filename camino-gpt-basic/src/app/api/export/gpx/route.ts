@@ -0,0 +1,20 @@
+// app/api/export/gpx/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ItinerarySchema } from "@/lib/schemas";
+import { gpxFilename, itineraryToGpx } from "@/lib/export/gpx";
+
+/** Download the posted itinerary as a GPX 1.1 file */
+export async function POST(req: NextRequest) {
+    const body = await req.json().catch(() => null);
+    const parsed = ItinerarySchema.safeParse(body?.itinerary);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Missing or invalid itinerary" }, { status: 400 });
+    }
+    const name = typeof body?.name === "string" && body.name.trim() ? body.name.trim() : undefined;
+    return new NextResponse(itineraryToGpx(parsed.data, name), {
+        headers: {
+            "Content-Type": "application/gpx+xml; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${gpxFilename(parsed.data)}"`,
+        },
+    });
+}
@@ -0,0 +1,26 @@
+// app/api/export/ics/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ItinerarySchema } from "@/lib/schemas";
+import { isIsoDate, withDates } from "@/lib/calendar";
+import { icsFilename, itineraryToIcs } from "@/lib/export/ics";
+
+/** Download the posted itinerary as iCalendar events (`startDate` dates an undated plan) */
+export async function POST(req: NextRequest) {
+    const body = await req.json().catch(() => null);
+    const parsed = ItinerarySchema.safeParse(body?.itinerary);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Missing or invalid itinerary" }, { status: 400 });
+    }
+    const itinerary = parsed.data[0].date || !isIsoDate(body?.startDate) ? parsed.data : withDates(parsed.data, body.startDate);
+    const name = typeof body?.name === "string" && body.name.trim() ? body.name.trim() : undefined;
+    try {
+        return new NextResponse(itineraryToIcs(itinerary, name), {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${icsFilename(itinerary)}"`,
+            },
+        });
+    } catch (e) {
+        return NextResponse.json({ error: e instanceof Error ? e.message : String(e) }, { status: 422 });
+    }
+}
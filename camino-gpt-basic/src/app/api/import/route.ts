@@ -0,0 +1,86 @@
+// app/api/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { parseTrack } from "@/lib/import/track";
+import { trackToItinerary, type StopSource } from "@/lib/import/itinerary";
+import { itineraryToGeojson, itineraryToMarkers } from "@/lib/stages/splitter";
+import { isRouteId, ROUTES } from "@/lib/stages/registry";
+import { isIsoDate } from "@/lib/calendar";
+import { withEffort } from "@/lib/effort";
+import { withFoodStops } from "@/lib/places/food";
+import { summarizeCosts, withCosts } from "@/lib/cost";
+import { checkCompostela } from "@/lib/compostela";
+import type { CaminoPreferences } from "@/lib/preferences";
+
+/** Larger files are rejected before parsing */
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+const STOPS_FROM: Record<StopSource, string> = {
+    segments: "overnights from the file's day segments",
+    waypoints: "overnights from the file's waypoints",
+    split: "the file marks no overnights, so I split it into stages",
+};
+
+function parsePreferences(raw: FormDataEntryValue | null): Partial<CaminoPreferences> | undefined {
+    if (typeof raw !== "string" || !raw) return undefined;
+    try {
+        return JSON.parse(raw) as Partial<CaminoPreferences>;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Upload a GPX, KML or GeoJSON track (multipart field `file`; optional
+ * `preferences` JSON, `startDate`, `route`) and get it back as an itinerary
+ * on the stage towns, in the same shape /api/chat answers with.
+ */
+export async function POST(req: NextRequest) {
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!form || !(file instanceof File)) {
+        return NextResponse.json({ error: "Upload a GPX, KML or GeoJSON file as `file`" }, { status: 400 });
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+        return NextResponse.json({ error: `The file is over ${MAX_IMPORT_BYTES / 1024 / 1024} MB` }, { status: 413 });
+    }
+
+    const preferences = parsePreferences(form.get("preferences"));
+    const startDate = form.get("startDate");
+    const route = form.get("route");
+
+    try {
+        const track = parseTrack(await file.text(), file.name);
+        const imported = trackToItinerary(track, {
+            route: isRouteId(route) ? route : undefined,
+            startDate: isIsoDate(startDate) ? startDate : undefined,
+            preferences,
+        });
+        const itinerary = withCosts(withFoodStops(withEffort(imported.itinerary), preferences), preferences);
+
+        const walking = itinerary.filter((l) => !l.rest);
+        const reply = [
+            `Imported ${track.name ? `"${track.name}"` : file.name}: ${walking.length} walking days on the ` +
+                `${ROUTES[imported.route].name} from ${itinerary[0].from} to ${itinerary[itinerary.length - 1].to} ` +
+                `(${STOPS_FROM[imported.stopsFrom]}).`,
+            imported.unmatched.length
+                ? `Not near a stage town, so left out: ${imported.unmatched.join(", ")}.`
+                : "",
+            "Ask me to change any day, add a rest day or book beds.",
+        ].filter(Boolean).join("\n");
+
+        return NextResponse.json({
+            reply,
+            plan: itinerary,
+            compostela: checkCompostela(itinerary),
+            cost: summarizeCosts(itinerary, preferences),
+            actions: [
+                { type: "clearRoute" },
+                { type: "drawRoute", geojson: itineraryToGeojson(itinerary) },
+                itineraryToMarkers(itinerary),
+            ],
+        });
+    } catch (e) {
+        console.warn(`[api.import] ${file.name}: ${String(e)}`);
+        return NextResponse.json({ error: e instanceof Error ? e.message : String(e) }, { status: 422 });
+    }
+}
@@ -0,0 +1,48 @@
+// app/api/itinerary/print/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ItinerarySchema } from "@/lib/schemas";
+import { bookletBasename, bookletHtml, bookletPdf, buildBooklet } from "@/lib/export/booklet";
+
+/** The body as JSON, or a form post whose `itinerary` field holds the JSON (so a plain <form> can open it) */
+async function readBody(req: NextRequest): Promise<{ itinerary?: unknown; format?: unknown; name?: unknown } | null> {
+    if (req.headers.get("content-type")?.includes("application/json")) return req.json().catch(() => null);
+    const form = await req.formData().catch(() => null);
+    if (!form) return null;
+    try {
+        return { itinerary: JSON.parse(String(form.get("itinerary") ?? "")), format: form.get("format"), name: form.get("name") };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Printable booklet of the posted itinerary: HTML (default; print it or save
+ * as PDF from the browser) or `format: "pdf"`, rendered here without any
+ * external service.
+ */
+export async function POST(req: NextRequest) {
+    const body = await readBody(req);
+    const parsed = ItinerarySchema.safeParse(body?.itinerary);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Missing or invalid itinerary" }, { status: 400 });
+    }
+    const name = typeof body?.name === "string" && body.name.trim() ? body.name.trim() : undefined;
+    const booklet = buildBooklet(parsed.data, name);
+    const basename = bookletBasename(parsed.data);
+
+    if (body?.format === "pdf") {
+        return new NextResponse(new Uint8Array(bookletPdf(booklet)), {
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `inline; filename="${basename}.pdf"`,
+            },
+        });
+    }
+    const html = bookletHtml(booklet, { action: req.nextUrl.pathname, itinerary: JSON.stringify(parsed.data) });
+    return new NextResponse(html, {
+        headers: {
+            "Content-Type": "text/html; charset=utf-8",
+            "Content-Disposition": `inline; filename="${basename}.html"`,
+        },
+    });
+}
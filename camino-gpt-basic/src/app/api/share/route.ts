@@ -0,0 +1,15 @@
+// app/api/share/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ItinerarySchema } from "@/lib/schemas";
+import { saveTrip } from "@/lib/share";
+
+/** Snapshot the posted itinerary and return its read-only link (`/trip/<id>`) */
+export async function POST(req: NextRequest) {
+    const body = await req.json().catch(() => null);
+    const parsed = ItinerarySchema.safeParse(body?.itinerary);
+    if (!parsed.success) {
+        return NextResponse.json({ error: "Missing or invalid itinerary" }, { status: 400 });
+    }
+    const trip = saveTrip(parsed.data);
+    return NextResponse.json({ id: trip.id, url: `/trip/${trip.id}` });
+}
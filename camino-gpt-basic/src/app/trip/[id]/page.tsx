@@ -0,0 +1,27 @@
+// app/trip/[id]/page.tsx
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { loadTrip } from "@/lib/share";
+import { itineraryToGeojson, itineraryToMarkers } from "@/lib/stages/splitter";
+import type { AgentAction } from "@/lib/agentActions";
+import TripView from "@/components/TripView";
+
+type Props = { params: Promise<{ id: string }> };
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const trip = loadTrip((await params).id);
+  return { title: trip ? `${trip.title} · Camino GPT` : "Trip not found · Camino GPT" };
+}
+
+/** Read-only view of a shared itinerary (see /api/share) */
+export default async function TripPage({ params }: Props) {
+  const trip = loadTrip((await params).id);
+  if (!trip) notFound();
+
+  // Geometry comes from the server-side trail data, so the client only draws it
+  const actions: AgentAction[] = [
+    { type: "drawRoute", geojson: itineraryToGeojson(trip.itinerary) },
+    itineraryToMarkers(trip.itinerary),
+  ];
+  return <TripView title={trip.title} itinerary={trip.itinerary} actions={actions} />;
+}
@@ -3,13 +3,17 @@
 
 import { useEffect, useRef, useState } from "react";
 import { PREFERENCES_STORAGE_KEY } from "@/lib/preferences";
-import { AgentAction, emitAction } from "@/lib/agentActions";
+import { AgentAction, downloadFile, emitAction } from "@/lib/agentActions";
 import { postJsonWithRetry } from "@/lib/net";
 import type { Plan } from "@/lib/schemas";          // executor plan (your existing type)
 import type { Itinerary, Leg } from "@/lib/leg"; // NEW: itinerary for UI
-import { formatDistanceWithUnit } from "@/lib/utils";
+import { formatDistanceWithUnit, formatMoney } from "@/lib/utils";
+import type { CompostelaCheck } from "@/lib/compostela";
+import type { CostSummary } from "@/lib/cost";
+import type { Source } from "@/lib/answer";
+import ItineraryDays from "@/components/ItineraryDays";
 
-type Msg = { role: "user" | "assistant"; content: string };
+type Msg = { role: "user" | "assistant"; content: string; sources?: Source[] };
 
 export default function Chat() {
   const [open, setOpen] = useState(false); // 👈 FAB -> takeover
@@ -23,14 +27,28 @@ export default function Chat() {
 
   // NEW: authoritative itinerary coming back from /api/chat
   const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [compostela, setCompostela] = useState<CompostelaCheck | null>(null);
+  const [cost, setCost] = useState<CostSummary | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const listRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
   const [netStatus, setNetStatus] = useState<null | { phase: "sending" | "retrying"; attempt?: number }>(null);
 
   useEffect(() => {
     listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: "smooth" });
   }, [messages, open, itinerary, draftPlan]); // scroll when itinerary/draft appears
 
+  // Track files dropped on the map
+  useEffect(() => {
+    const onImport = (e: Event) => {
+      setOpen(true);
+      importTrack((e as CustomEvent<File>).detail);
+    };
+    window.addEventListener("camino:import", onImport);
+    return () => window.removeEventListener("camino:import", onImport);
+  });
+
   async function callChatApi(payload: any) {
     setNetStatus({ phase: "sending" });
     try {
@@ -64,9 +82,9 @@ export default function Chat() {
         if (raw) preferences = JSON.parse(raw);
       } catch {}
 
-      const data = await callChatApi({ messages: next, preferences });
+      const data = await callChatApi({ messages: next, preferences, itinerary });
 
-      setMessages((m) => [...m, { role: "assistant", content: data.reply || "(no reply)" }]);
+      setMessages((m) => [...m, { role: "assistant", content: data.reply || "(no reply)", sources: data.sources }]);
 
       // Draft executor plan (pause-for-user) — existing behavior
       if (data?.draftPlan) {
@@ -83,13 +101,20 @@ export default function Chat() {
           .slice()
           .sort((a: Leg, b: Leg) => (a.day ?? 0) - (b.day ?? 0));
         setItinerary(sorted);
+        setCompostela(data.compostela ?? null);
+        setCost(data.cost ?? null);
       } else {
         setItinerary(null);
+        setCompostela(null);
+        setCost(null);
       }
 
       // Map actions
       if (Array.isArray(data.actions)) {
-        for (const a of data.actions as AgentAction[]) emitAction(a);
+        for (const a of data.actions as AgentAction[]) {
+          if (a.type === "download") downloadFile(a.url, a.filename);
+          else emitAction(a);
+        }
       }
     } catch {
       setMessages((m) => [
@@ -117,9 +142,10 @@ export default function Chat() {
         approve: true,
         planId: draftPlanId,
         plan: draftPlan,
+        itinerary,
       });
 
-      setMessages((m) => [...m, { role: "assistant", content: data.reply || "(no reply)" }]);
+      setMessages((m) => [...m, { role: "assistant", content: data.reply || "(no reply)", sources: data.sources }]);
 
       // When an approved run returns, also refresh itinerary if present
       if (Array.isArray(data.plan)) {
@@ -127,10 +153,15 @@ export default function Chat() {
           .slice()
           .sort((a: Leg, b: Leg) => (a.day ?? 0) - (b.day ?? 0));
         setItinerary(sorted);
+        setCompostela(data.compostela ?? null);
+        setCost(data.cost ?? null);
       }
 
       if (Array.isArray(data.actions)) {
-        for (const a of data.actions as AgentAction[]) emitAction(a);
+        for (const a of data.actions as AgentAction[]) {
+          if (a.type === "download") downloadFile(a.url, a.filename);
+          else emitAction(a);
+        }
       }
     } catch {
       setMessages((m) => [...m, { role: "assistant", content: "Approval failed after retries—please try again." }]);
@@ -141,6 +172,81 @@ export default function Chat() {
     }
   }
 
+  async function exportFile(kind: "gpx" | "ics") {
+    if (!itinerary) return;
+    try {
+      const res = await fetch(`/api/export/${kind}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itinerary }),
+      });
+      if (!res.ok) {
+        const error = await res.json().then((d) => d.error as string | undefined, () => undefined);
+        setMessages((m) => [...m, { role: "assistant", content: error ?? `Couldn't export the ${kind.toUpperCase()} file—please try again.` }]);
+        return;
+      }
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `camino.${kind}`;
+      const url = URL.createObjectURL(await res.blob());
+      downloadFile(url, filename);
+      URL.revokeObjectURL(url);
+    } catch {
+      setMessages((m) => [...m, { role: "assistant", content: `Couldn't export the ${kind.toUpperCase()} file—please try again.` }]);
+    }
+  }
+
+  async function copyShareLink() {
+    if (!itinerary) return;
+    try {
+      const res = await fetch("/api/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itinerary }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const { url } = await res.json();
+      const link = new URL(url, window.location.origin).toString();
+      try {
+        await navigator.clipboard.writeText(link);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      } catch {
+        // Clipboard blocked (e.g. not a secure context): show the link instead
+        setMessages((m) => [...m, { role: "assistant", content: `Share this read-only link: ${link}` }]);
+      }
+    } catch {
+      setMessages((m) => [...m, { role: "assistant", content: "Couldn't create a share link—please try again." }]);
+    }
+  }
+
+  async function importTrack(file: File) {
+    if (sending) return;
+    setSending(true);
+    setMessages((m) => [...m, { role: "user", content: `Import ${file.name}` }]);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const prefs = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+      if (prefs) form.append("preferences", prefs);
+      const res = await fetch("/api/import", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessages((m) => [...m, { role: "assistant", content: `Couldn't import ${file.name}: ${data.error ?? `HTTP ${res.status}`}` }]);
+        return;
+      }
+      setMessages((m) => [...m, { role: "assistant", content: data.reply }]);
+      setDraftPlan(null);
+      setDraftPlanId(null);
+      setItinerary(data.plan as Itinerary);
+      setCompostela(data.compostela ?? null);
+      setCost(data.cost ?? null);
+      for (const a of data.actions as AgentAction[]) emitAction(a);
+    } catch {
+      setMessages((m) => [...m, { role: "assistant", content: "Couldn't upload the track—please try again." }]);
+    } finally {
+      setSending(false);
+    }
+  }
+
   // --- Collapsed: Floating Action Button (bottom-right)
   if (!open) {
     return (
@@ -186,40 +292,79 @@ export default function Chat() {
           {/* NEW: Draft Itinerary panel (authoritative plan from server) */}
           {itinerary && (
             <div className="rounded-xl p-3 bg-neutral-900/70 border border-neutral-800">
-              <div className="text-sm font-semibold mb-2">Draft Plan</div>
-              <div className="grid gap-2">
-                {itinerary.map((leg) => (
-                  <div key={leg.day} className="flex items-start justify-between gap-3">
-                    <div className="text-sm leading-tight">
-                      <div className="font-medium">
-                        Day {leg.day} — {leg.from} → {leg.to}
-                      </div>
-                      <div className="opacity-80 text-xs">
-                        {formatDistanceWithUnit(leg.km)}
-                        {leg.ascentM ? ` · +${leg.ascentM} m` : ""}
-                      </div>
-                      {leg.notes ? (
-                        <div className="mt-1 text-xs opacity-80">
-                          {Array.isArray(leg.notes) ? (
-                            <ul className="list-disc pl-4">
-                              {leg.notes.map((n, i) => <li key={i}>{n}</li>)}
-                            </ul>
-                          ) : (
-                            <p>{leg.notes}</p>
-                          )}
-                        </div>
-                      ) : null}
-                    </div>
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm font-semibold">Draft Plan</div>
+                <div className="flex gap-2">
+                  <button
+                    className="rounded-md px-2 py-1 text-xs border border-neutral-700 hover:bg-neutral-800"
+                    onClick={copyShareLink}
+                    title="Copy a read-only link to this plan"
+                  >
+                    {linkCopied ? "Copied!" : "Copy link"}
+                  </button>
+                  {/* Plain form post so the booklet opens in its own tab, ready to print */}
+                  <form method="post" action="/api/itinerary/print" target="_blank">
+                    <input type="hidden" name="itinerary" value={JSON.stringify(itinerary)} />
                     <button
-                      className="shrink-0 rounded-md px-2 py-1 text-xs border border-neutral-700 hover:bg-neutral-800"
-                      onClick={() => emitAction({ type: "focus", lat: leg.toLat, lon: leg.toLon, zoom: 13 } as AgentAction)}
-                      title="Center map on this day"
+                      type="submit"
+                      className="rounded-md px-2 py-1 text-xs border border-neutral-700 hover:bg-neutral-800"
+                      title="Open a printable booklet: one page per day with a map, beds and services"
                     >
-                      Focus
+                      Print booklet
                     </button>
-                  </div>
-                ))}
+                  </form>
+                  <button
+                    className="rounded-md px-2 py-1 text-xs border border-neutral-700 hover:bg-neutral-800 disabled:opacity-50"
+                    onClick={() => exportFile("ics")}
+                    disabled={!itinerary[0]?.date}
+                    title={itinerary[0]?.date ? "Add the walking days to your calendar (.ics)" : "Give a start date to export to a calendar"}
+                  >
+                    Add to calendar
+                  </button>
+                  <button
+                    className="rounded-md px-2 py-1 text-xs border border-neutral-700 hover:bg-neutral-800"
+                    onClick={() => exportFile("gpx")}
+                    title="Download the plan as a GPX file (one track per day)"
+                  >
+                    Export GPX
+                  </button>
+                </div>
               </div>
+              <ItineraryDays itinerary={itinerary} cost={cost} />
+              {cost && (
+                <div className="mt-3 border-t border-neutral-800 pt-2 text-xs">
+                  <div className={cost.overEur ? "text-amber-400" : ""}>
+                    Estimated total {formatMoney(cost.totalEur * cost.rate, cost.currency)} ({cost.tier})
+                    {cost.targetEur !== undefined ? ` · target ${formatMoney(cost.targetEur * cost.rate, cost.currency)}` : ""}
+                    {cost.overEur ? ` · ${formatMoney(cost.overEur * cost.rate, cost.currency)} over` : ""}
+                  </div>
+                  <div className="opacity-80">
+                    {cost.roomNights} night{cost.roomNights === 1 ? "" : "s"} in private rooms, {cost.dormNights} in albergue dorms
+                    {cost.currency !== "EUR" ? " · converted from EUR at an approximate rate" : ""}
+                  </div>
+                </div>
+              )}
+              {compostela && (
+                <div className="mt-3 border-t border-neutral-800 pt-2 text-xs">
+                  <div className={compostela.eligible ? "text-emerald-400" : "text-amber-400"}>
+                    {compostela.eligible ? "✓ Qualifies for the Compostela" : "✗ Does not qualify for the Compostela"}
+                    {compostela.startKmFromSantiago !== null ? ` · starts ${formatDistanceWithUnit(compostela.startKmFromSantiago)} out` : ""}
+                  </div>
+                  {compostela.issues.length > 0 && (
+                    <ul className="list-disc pl-4 mt-1 opacity-80">
+                      {compostela.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                      {compostela.suggestedStart ? <li>Closest qualifying start: {compostela.suggestedStart}</li> : null}
+                    </ul>
+                  )}
+                  {compostela.stamps.some(s => s.required > 1) && (
+                    <div className="mt-1 opacity-80">
+                      Stamps: 2 a day on{" "}
+                      {compostela.stamps.filter(s => s.required > 1).map(s => `Day ${s.day}`).join(", ")}
+                      , 1 a day otherwise.
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -231,6 +376,30 @@ export default function Chat() {
             >
               <div className="text-[10px] uppercase tracking-wide text-neutral-400 mb-1">{m.role}</div>
               <div className="whitespace-pre-wrap leading-relaxed">{m.content}</div>
+              {m.sources?.length ? (
+                <ol className="mt-2 border-t border-neutral-800 pt-2 text-xs space-y-1">
+                  {m.sources.map((s) => (
+                    <li key={s.n} className="opacity-80">
+                      <span className="font-mono">[{s.n}]</span>{" "}
+                      {s.url ? (
+                        <a href={s.url} target="_blank" rel="noreferrer" className="underline hover:text-emerald-400" title={s.snippet}>
+                          {s.title}
+                        </a>
+                      ) : s.lat !== undefined && s.lon !== undefined ? (
+                        <button
+                          className="underline hover:text-emerald-400"
+                          title={s.snippet}
+                          onClick={() => emitAction({ type: "focus", lat: s.lat!, lon: s.lon!, zoom: 16 } as AgentAction)}
+                        >
+                          {s.title}
+                        </button>
+                      ) : (
+                        <span title={s.snippet}>{s.title}</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
             </div>
           ))}
 
@@ -261,6 +430,8 @@ export default function Chat() {
                     friendly = `focus: ${args.label}`;
                   } else if (s.tool === "map.drawRoute" && args.meta && (args.meta.startName || args.meta.endName)) {
                     friendly = `route: ${args.meta.startName ?? "?"} → ${args.meta.endName ?? "?"}`;
+                  } else if (s.tool === "lodging.confirm") {
+                    friendly = "book the held beds";
                   }
                   return (
                     <div key={s.id} className="opacity-70">
@@ -310,6 +481,26 @@ export default function Chat() {
               value={input}
               onChange={(e) => setInput(e.target.value)}
             />
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".gpx,.kml,.geojson,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importTrack(file);
+              }}
+            />
+            <button
+              type="button"
+              disabled={sending}
+              onClick={() => fileRef.current?.click()}
+              className="rounded-xl px-3 py-3 border border-neutral-700 hover:bg-neutral-800 disabled:opacity-60"
+              title="Import a GPX, KML or GeoJSON track (or drop it on the map)"
+            >
+              Import
+            </button>
             <button
               type="submit"
               disabled={sending}
@@ -0,0 +1,109 @@
+// components/ItineraryDays.tsx
+"use client";
+
+import { AgentAction, emitAction } from "@/lib/agentActions";
+import type { Itinerary, LegReservation } from "@/lib/leg";
+import { formatClimb, formatDistance, formatDistanceWithUnit, formatMoney } from "@/lib/utils";
+import { formatDuration } from "@/lib/effort";
+import type { FoodStop } from "@/lib/places/types";
+import type { CostSummary, DayCost } from "@/lib/cost";
+import { formatShortDate } from "@/lib/calendar";
+
+const RESERVATION_STYLE: Record<LegReservation["status"], string> = {
+  held: "text-sky-400",
+  confirmed: "text-emerald-400",
+  cancelled: "text-neutral-500",
+  expired: "text-amber-400",
+};
+
+const FOOD_LABELS: Record<FoodStop["meal"], string> = {
+  lunch: "Lunch",
+  picnic: "Picnic lunch, buy at",
+  resupply: "Resupply",
+};
+
+function reservationLabel(r: LegReservation): string {
+  switch (r.status) {
+    case "held":
+      return `Bed held at ${r.placeName}${r.heldUntil ? ` until ${new Date(r.heldUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : ""}`;
+    case "confirmed":
+      return `✓ Booked at ${r.placeName}${r.reference ? ` · ref ${r.reference}` : ""}`;
+    case "cancelled":
+      return `Cancelled at ${r.placeName}`;
+    case "expired":
+      return `Hold at ${r.placeName} lapsed: ask to hold again`;
+  }
+}
+
+/** "≈ €43 · dorm €10 · meals €31 · luggage €6" in the walker's currency */
+function costLabel(c: DayCost, total: CostSummary | null): string {
+  const money = (eur: number) => formatMoney(eur * (total?.rate ?? 1), total?.currency ?? "EUR");
+  return [
+    `≈ ${money(c.totalEur)}`,
+    `${c.bed === "room" ? "private room" : "dorm"} ${money(c.bedEur)}`,
+    `meals ${money(c.mealsEur)}`,
+    c.luggageEur ? `luggage ${money(c.luggageEur)}` : "",
+    c.passportEur ? `credencial ${money(c.passportEur)}` : "",
+  ].filter(Boolean).join(" · ");
+}
+
+/** The day-by-day list of a plan (the Draft Plan panel and shared /trip pages) */
+export default function ItineraryDays({ itinerary, cost = null }: { itinerary: Itinerary; cost?: CostSummary | null }) {
+  return (
+    <div className="grid gap-2">
+      {itinerary.map((leg) => (
+        <div key={leg.day} className="flex items-start justify-between gap-3">
+          <div className="text-sm leading-tight">
+            <div className="font-medium">
+              Day {leg.day}{leg.date ? ` · ${formatShortDate(leg.date)}` : ""} —{" "}
+              {leg.rest ? `Rest day in ${leg.to}` : `${leg.from} → ${leg.to}`}
+            </div>
+            {leg.holiday ? (
+              <div className="text-xs text-amber-400">{leg.holiday}: shops may be closed</div>
+            ) : null}
+            <div className="opacity-80 text-xs">
+              {leg.rest ? "No walking" : formatDistanceWithUnit(leg.km)}
+              {formatClimb(leg) ? ` · ${formatClimb(leg)}` : ""}
+              {leg.walkMinutes ? ` · ~${formatDuration(leg.walkMinutes)}` : ""}
+              {leg.difficulty ? ` · ${leg.difficulty}` : ""}
+              {leg.suggestedStart ? ` · start ${leg.suggestedStart}` : ""}
+            </div>
+            {leg.food?.map((f) => (
+              <div key={f.meal} className="text-xs opacity-80">
+                {FOOD_LABELS[f.meal]}: {f.placeName}
+                {f.km ? ` · km ${formatDistance(f.km)}` : ""}
+                {f.diets?.length ? ` · ${f.diets.join(", ")}` : ""}
+              </div>
+            ))}
+            {leg.cost ? (
+              <div className="text-xs opacity-80">{costLabel(leg.cost, cost)}</div>
+            ) : null}
+            {leg.reservation ? (
+              <div className={`text-xs ${RESERVATION_STYLE[leg.reservation.status]}`}>
+                {reservationLabel(leg.reservation)}
+              </div>
+            ) : null}
+            {leg.notes ? (
+              <div className="mt-1 text-xs opacity-80">
+                {Array.isArray(leg.notes) ? (
+                  <ul className="list-disc pl-4">
+                    {leg.notes.map((n, i) => <li key={i}>{n}</li>)}
+                  </ul>
+                ) : (
+                  <p>{leg.notes}</p>
+                )}
+              </div>
+            ) : null}
+          </div>
+          <button
+            className="shrink-0 rounded-md px-2 py-1 text-xs border border-neutral-700 hover:bg-neutral-800"
+            onClick={() => emitAction({ type: "focus", lat: leg.toLat, lon: leg.toLon, zoom: 13 } as AgentAction)}
+            title="Center map on this day"
+          >
+            Focus
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
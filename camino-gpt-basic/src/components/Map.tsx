@@ -2,7 +2,8 @@
 
 import { useEffect, useRef } from "react";
 import L from "leaflet";
-import { AgentAction } from "@/lib/agentActions";
+import { AgentAction, emitImport } from "@/lib/agentActions";
+import type { ServiceKind } from "@/lib/places/types";
 import { formatDistanceWithUnit } from "@/lib/utils";
 
 // Provide Leaflet's marker icon URLs as plain strings (not StaticImageData).
@@ -18,8 +19,17 @@ L.Icon.Default.mergeOptions({
   shadowUrl,
 });
 
-export default function Map() {
+const SERVICE_COLORS: Record<ServiceKind, string> = {
+  fountain: "#38bdf8",
+  pharmacy: "#22c55e",
+  atm: "#f59e0b",
+  health: "#ef4444",
+};
+
+/** `initialActions` are drawn once the map is ready (e.g. a shared trip's route and stops) */
+export default function Map({ initialActions }: { initialActions?: AgentAction[] } = {}) {
   const ref = useRef<HTMLDivElement | null>(null);
+  const initialRef = useRef(initialActions);
   const mapRef = useRef<L.Map | null>(null);
 
   useEffect(() => {
@@ -65,7 +75,13 @@ export default function Map() {
     // inside the second useEffect in Map.tsx, replace the local vars + handlers
 
     let routesGroup: L.LayerGroup | null = null;
-    let markersGroup: L.LayerGroup | null = null;
+    // One group per marker layer: overnight stops ("stops") and search results are replaced independently
+    let markerGroups: Record<string, L.LayerGroup> = {};
+    const clearMarkers = () => { Object.values(markerGroups).forEach(g => map.removeLayer(g)); markerGroups = {}; };
+
+    // Services sit in one overlay the user can switch off from the layers control
+    const servicesGroup = L.layerGroup();
+    let servicesControl: L.Control.Layers | null = null;
 
     function handleAction(ev: Event) {
       const detail = (ev as CustomEvent<AgentAction>).detail;
@@ -74,7 +90,8 @@ export default function Map() {
 
       if (detail.type === "clearRoute") {
         if (routesGroup) { map.removeLayer(routesGroup); routesGroup = null; }
-        if (markersGroup) { map.removeLayer(markersGroup); markersGroup = null; }
+        clearMarkers();
+        servicesGroup.clearLayers();
         return;
       }
 
@@ -116,15 +133,35 @@ export default function Map() {
         return;
       }
 
+      if (detail.type === "drawServices") {
+        servicesGroup.clearLayers();
+        if (!servicesControl) {
+          servicesControl = L.control.layers(undefined, { "Pilgrim services": servicesGroup }, { collapsed: false }).addTo(map);
+        }
+        if (!map.hasLayer(servicesGroup)) servicesGroup.addTo(map); // new results are shown even if toggled off
+
+        detail.services.forEach((s) => {
+          L.circleMarker([s.lat, s.lon], { radius: 6, weight: 2, color: SERVICE_COLORS[s.kind], fillOpacity: 0.8 })
+            .addTo(servicesGroup)
+            .bindPopup(
+              `<div style="font-weight:600">${s.title}</div>` +
+              (s.subtitle ? `<div style="opacity:.8">${s.subtitle}</div>` : "")
+            );
+        });
+        return;
+      }
+
       if (detail.type === "drawMarkers") {
         console.log("Drawing markers:", detail.markers);
 
-        if (markersGroup) { map.removeLayer(markersGroup); markersGroup = null; }
-        markersGroup = L.layerGroup().addTo(map);
+        const key = detail.layer ?? "stops";
+        if (markerGroups[key]) map.removeLayer(markerGroups[key]);
+        const group = L.layerGroup().addTo(map);
+        markerGroups[key] = group;
 
         detail.markers.forEach((m, idx) => {
           L.marker([m.lat, m.lon])
-            .addTo(markersGroup!)
+            .addTo(group)
             .bindPopup(
               `<div style="font-weight:600">${m.title}</div>` +
               (m.subtitle ? `<div style="opacity:.8">${m.subtitle}</div>` : "")
@@ -135,10 +172,13 @@ export default function Map() {
     }
 
     window.addEventListener("camino:action", handleAction as EventListener);
+    for (const a of initialRef.current ?? []) handleAction(new CustomEvent("camino:action", { detail: a }));
     return () => {
       window.removeEventListener("camino:action", handleAction as EventListener);
       if (routesGroup) { map.removeLayer(routesGroup); routesGroup = null; }
-      if (markersGroup) { map.removeLayer(markersGroup); markersGroup = null; }
+      clearMarkers();
+      servicesControl?.remove();
+      map.removeLayer(servicesGroup);
     };
 
   }, []);
@@ -155,6 +195,12 @@ export default function Map() {
         zIndex: 0,             // 👈 low layer for the map
       }}
       aria-label="Map"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) emitImport(file);
+      }}
     />
   );
 }
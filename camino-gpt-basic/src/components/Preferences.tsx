@@ -2,9 +2,9 @@
 "use client";
 
 import { usePreferences } from "@/context/PreferencesContext";
-import type { CaminoPreferences } from "@/lib/preferences";
+import type { CaminoPreferences, Currency } from "@/lib/preferences";
 import {
-    UNIT_SYSTEMS, ROUTE_STYLES, BUDGET_TIERS, ALBERGUE_KINDS,
+    UNIT_SYSTEMS, ROUTE_STYLES, BUDGET_TIERS, CURRENCIES, ALBERGUE_KINDS,
     DIETARY_OPTIONS, LANGUAGE_OPTIONS, LABELS
 } from "@/lib/preferences";
 
@@ -69,6 +69,18 @@ export default function Preferences() {
                             </div>
                         </Section>
 
+                        <Section title="Start Date">
+                            <input
+                                type="date"
+                                className="w-full rounded-md bg-[#0f0f0f] border border-[#2a2a2a] p-2"
+                                value={prefs.startDate}
+                                onChange={(e) => update("startDate", e.target.value)}
+                            />
+                            <div className="mt-1 text-xs opacity-75">
+                                Leave empty for an undated plan.
+                            </div>
+                        </Section>
+
                         <Section title="Budget">
                             <Radio
                                 name="budget"
@@ -76,6 +88,20 @@ export default function Preferences() {
                                 options={BUDGET_TIERS.map((b) => [b, LABELS.budget[b]] as [string, string])}
                                 onChange={(v) => update("budget", v as any)}
                             />
+                            <Radio
+                                name="currency"
+                                value={prefs.currency}
+                                options={CURRENCIES.map((c) => [c, LABELS.currency[c]] as [string, string])}
+                                onChange={(v) => update("currency", v as Currency)}
+                            />
+                            <Toggle
+                                label="Luggage transfer each day"
+                                checked={prefs.luggageTransfer}
+                                onChange={(v) => update("luggageTransfer", v)}
+                            />
+                            <div className="text-xs opacity-75">
+                                Cost estimates are in euros, shown in your currency at an approximate rate.
+                            </div>
                         </Section>
 
                         <Section title="Stays">
@@ -0,0 +1,32 @@
+// components/TripView.tsx
+"use client";
+
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import type { AgentAction } from "@/lib/agentActions";
+import type { Itinerary } from "@/lib/leg";
+import ItineraryDays from "@/components/ItineraryDays";
+
+const Map = dynamic(() => import("@/components/Map"), { ssr: false });
+
+/** A shared plan, read-only: the map with its route and stops, and the day list beside it */
+export default function TripView({ title, itinerary, actions }: { title: string; itinerary: Itinerary; actions: AgentAction[] }) {
+  return (
+    <main style={{ position: "relative", height: "100dvh", width: "100dvw" }}>
+      <div className="absolute inset-0 z-0">
+        <Map initialActions={actions} />
+      </div>
+
+      <aside className="fixed z-[11000] bottom-0 inset-x-0 max-h-[45dvh] md:inset-x-auto md:right-4 md:top-4 md:bottom-4 md:max-h-none md:w-[min(420px,100vw)] overflow-y-auto rounded-t-xl md:rounded-xl p-4 bg-[#0f0f0f]/95 border border-neutral-800 shadow-2xl">
+        <div className="mb-3">
+          <div className="text-xs uppercase tracking-wide opacity-60">Shared plan · read-only</div>
+          <h1 className="text-lg font-semibold">{title}</h1>
+        </div>
+        <ItineraryDays itinerary={itinerary} />
+        <Link href="/" className="mt-4 inline-block text-sm text-emerald-400 hover:underline">
+          Plan your own Camino →
+        </Link>
+      </aside>
+    </main>
+  );
+}
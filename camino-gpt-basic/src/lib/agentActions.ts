@@ -1,12 +1,34 @@
 
 // lib/agentActions.ts
+import type { ServiceKind } from "@/lib/places/types";
+
 export type AgentAction =
     | { type: "drawRoute"; geojson: any }
-    | { type: "drawMarkers"; markers: Array<{ lat: number; lon: number; title?: string; subtitle?: string }> }
+    | { type: "drawMarkers"; markers: Array<{ lat: number; lon: number; title?: string; subtitle?: string }>; layer?: string }
+    | {
+        type: "drawServices";
+        services: Array<{ lat: number; lon: number; kind: ServiceKind; title: string; subtitle?: string }>;
+    }
     | { type: "clearRoute" }
-    | { type: "focus"; lat: number; lon: number; zoom?: number };
+    | { type: "focus"; lat: number; lon: number; zoom?: number }
+    | { type: "download"; url: string; filename: string };
 
 export function emitAction(a: AgentAction) {
     window.dispatchEvent(new CustomEvent("camino:action", { detail: a }));
 }
 
+/** Hand a GPX/KML/GeoJSON file to the chat for import (the map forwards files dropped on it) */
+export function emitImport(file: File) {
+    window.dispatchEvent(new CustomEvent("camino:import", { detail: file }));
+}
+
+
+/** Save a file in the browser (an object or data: URL) */
+export function downloadFile(url: string, filename: string) {
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+}
@@ -0,0 +1,101 @@
+// lib/answer.ts
+import type { PlannerProvider } from "@/lib/llm/types";
+import type { StepOutput } from "@/lib/executor";
+import type { CaminoPreferences } from "@/lib/preferences";
+import type { RagHit } from "@/lib/rag/types";
+import type { PlaceHit } from "@/lib/places/types";
+import { placeSubtitle } from "@/lib/places/search";
+
+/** A numbered source the reply can cite as [n]: a guide passage (url) or a place (map position) */
+export type Source = {
+  n: number;
+  id: string;
+  title: string;
+  snippet: string;
+  url?: string;
+  lat?: number;
+  lon?: number;
+};
+
+export type Answer = { reply: string; sources: Source[] };
+
+const MAX_GUIDE_SOURCES = 5;
+const MAX_PLACE_SOURCES = 5;
+
+/** Number the passages and places the plan's steps found (guide first, best first) */
+export function collectSources(outputs: StepOutput[]): Source[] {
+  const guide = outputs
+    .filter(o => o.tool === "rag.search")
+    .flatMap(o => o.data as RagHit[])
+    .sort((a, b) => b.score - a.score)
+    .filter((h, i, all) => all.findIndex(x => x.id === h.id) === i)
+    .slice(0, MAX_GUIDE_SOURCES)
+    .map(h => ({ id: h.id, title: h.title, snippet: h.snippet, url: h.url }));
+  const places = outputs
+    .filter(o => o.tool === "places.search")
+    .flatMap(o => o.data as PlaceHit[])
+    .slice(0, MAX_PLACE_SOURCES)
+    .map(p => ({ id: p.id, title: `${p.name}, ${p.town}`, snippet: placeSubtitle(p), lat: p.lat, lon: p.lon }));
+  return [...guide, ...places].map((s, i) => ({ n: i + 1, ...s }));
+}
+
+const SYSTEM = [
+  "You answer Camino de Santiago questions for a pilgrim using ONLY the numbered sources given.",
+  "Cite every fact inline with its source number in square brackets, e.g. \"around €2 [1]\"; combine as [1][3].",
+  "If the sources do not answer the question, say so briefly and do not guess.",
+  "Be concise: 2–5 sentences or a short list. Plain text, no markdown headings.",
+].join("\n");
+
+/** Keep only the sources the reply actually cites (all of them if it cites none) */
+function cited(reply: string, sources: Source[]): Source[] {
+  const used = new Set([...reply.matchAll(/\[(\d+)\]/g)].map(m => Number(m[1])));
+  const kept = sources.filter(s => used.has(s.n));
+  return kept.length ? kept : sources;
+}
+
+/** Without the model: the best passages verbatim, each with its citation */
+export function extractiveAnswer(sources: Source[]): Answer {
+  if (!sources.length) return { reply: "I couldn't find that in the Camino guide or the places list.", sources };
+  const top = sources.slice(0, 3);
+  return { reply: top.map(s => `${s.title}: ${s.snippet} [${s.n}]`).join("\n\n"), sources: top };
+}
+
+const ANSWER_TIMEOUT_MS = 12_000;
+const MIN_ANSWER_MS = 2_000; // less than this left: don't start a model call
+
+/**
+ * Write the reply from what rag.search / places.search returned, citing the
+ * numbered sources inline. Falls back to the extractive answer when the model
+ * fails or returns nothing, or when `timeoutMs` leaves too little time to try.
+ */
+export async function synthesizeAnswer(opts: {
+  provider: PlannerProvider;
+  question: string;
+  outputs: StepOutput[];
+  preferences?: Partial<CaminoPreferences>;
+  /** What's left of the request budget (capped at ANSWER_TIMEOUT_MS) */
+  timeoutMs?: number;
+}): Promise<Answer> {
+  const { provider, question, outputs, preferences } = opts;
+  const timeoutMs = Math.min(opts.timeoutMs ?? ANSWER_TIMEOUT_MS, ANSWER_TIMEOUT_MS);
+  const sources = collectSources(outputs);
+  if (!sources.length || timeoutMs < MIN_ANSWER_MS) return extractiveAnswer(sources);
+
+  const context = sources.map(s => `[${s.n}] ${s.title}\n${s.snippet}`).join("\n\n");
+  const diet = preferences?.dietary?.filter(d => d !== "none") ?? [];
+  try {
+    const reply = (await provider.complete({
+      instructions: SYSTEM,
+      input: `Sources:\n${context}\n\n${diet.length ? `The pilgrim's diet: ${diet.join(", ")}.\n` : ""}Question: ${question}`,
+      key: question,
+      temperature: 0.2,
+      maxOutputTokens: 500,
+      timeoutMs,
+    })).trim();
+    if (!reply) throw new Error("empty answer");
+    return { reply, sources: cited(reply, sources) };
+  } catch (e) {
+    console.warn(`[answer] synthesis failed, using extractive answer: ${String(e)}`);
+    return extractiveAnswer(sources);
+  }
+}
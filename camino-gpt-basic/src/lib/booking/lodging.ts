@@ -0,0 +1,105 @@
+// lib/booking/lodging.ts
+import { BUDGET_TIERS, type CaminoPreferences } from "@/lib/preferences";
+import type { Itinerary, Leg, LegReservation } from "@/lib/leg";
+import type { BookingProvider, Offer, Reservation } from "@/lib/booking/types";
+
+/** A night the tools could not act on, and why */
+export type LodgingSkip = { day: number; reason: string };
+
+export type LodgingResult = { itinerary: Itinerary; reservations: Reservation[]; skipped: LodgingSkip[] };
+
+const live = (leg: Leg) => leg.reservation?.status === "held" || leg.reservation?.status === "confirmed";
+
+const toLeg = (r: Reservation): LegReservation => ({
+  id: r.id,
+  provider: r.provider,
+  placeName: r.placeName,
+  status: r.status,
+  ...(r.heldUntil ? { heldUntil: r.heldUntil } : {}),
+  ...(r.reference ? { reference: r.reference } : {}),
+});
+
+/** Preferred albergue type first, then within budget, then the most free beds */
+function pickOffer(offers: Offer[], prefs: Partial<CaminoPreferences>, samePlaceAs?: string): Offer | undefined {
+  const budget = prefs.budget ? BUDGET_TIERS.indexOf(prefs.budget) : Infinity;
+  const rank = (o: Offer) => [
+    o.placeName === samePlaceAs ? 0 : 1, // a rest day stays put
+    !prefs.albergueKinds?.length || (o.type && prefs.albergueKinds.includes(o.type)) ? 0 : 1,
+    o.priceBand && BUDGET_TIERS.indexOf(o.priceBand) > budget ? 1 : 0,
+    -o.bedsLeft,
+  ];
+  return [...offers].sort((a, b) => {
+    const [x, y] = [rank(a), rank(b)];
+    return x.map((v, i) => v - y[i]).find(d => d !== 0) ?? 0;
+  })[0];
+}
+
+const selected = (leg: Leg, days?: number[]) => !days?.length || days.includes(leg.day);
+
+/** Hold a bed in each night's town (every leg is one night in `to`), skipping nights already booked */
+export async function holdBeds(
+  itinerary: Itinerary,
+  provider: BookingProvider,
+  opts: { days?: number[]; guests?: number; preferences?: Partial<CaminoPreferences> } = {}
+): Promise<LodgingResult> {
+  const guests = opts.guests ?? 1;
+  const reservations: Reservation[] = [];
+  const skipped: LodgingSkip[] = [];
+  const legs: Leg[] = [];
+
+  for (const leg of itinerary) {
+    if (!selected(leg, opts.days) || live(leg)) {
+      legs.push(leg);
+      continue;
+    }
+    if (!leg.date) {
+      skipped.push({ day: leg.day, reason: "no date: set a start date to book" });
+      legs.push(leg);
+      continue;
+    }
+    const offers = await provider.search({ town: leg.to, date: leg.date, guests });
+    const previous = legs[legs.length - 1];
+    const offer = pickOffer(offers, opts.preferences ?? {}, leg.rest ? previous?.reservation?.placeName : undefined);
+    if (!offer) {
+      skipped.push({ day: leg.day, reason: `no bookable bed in ${leg.to} that night` });
+      legs.push(leg);
+      continue;
+    }
+    const r = await provider.hold(offer.offerId, guests);
+    reservations.push(r);
+    legs.push({ ...leg, reservation: toLeg(r) });
+  }
+  return { itinerary: legs, reservations, skipped };
+}
+
+/** Confirm held beds; holds that lapsed come back as `expired` and need a new hold */
+export async function confirmBeds(itinerary: Itinerary, provider: BookingProvider, days?: number[]): Promise<LodgingResult> {
+  return settle(itinerary, days, "held", id => provider.confirm(id));
+}
+
+/** Release held or confirmed beds */
+export async function cancelBeds(itinerary: Itinerary, provider: BookingProvider, days?: number[]): Promise<LodgingResult> {
+  return settle(itinerary, days, "live", id => provider.cancel(id));
+}
+
+async function settle(
+  itinerary: Itinerary, days: number[] | undefined, which: "held" | "live", act: (id: string) => Promise<Reservation>
+): Promise<LodgingResult> {
+  const reservations: Reservation[] = [];
+  const skipped: LodgingSkip[] = [];
+  const legs: Leg[] = [];
+
+  for (const leg of itinerary) {
+    const eligible = which === "held" ? leg.reservation?.status === "held" : live(leg);
+    if (!selected(leg, days) || !eligible) {
+      if (days?.includes(leg.day)) skipped.push({ day: leg.day, reason: leg.reservation ? `reservation is ${leg.reservation.status}` : "no reservation" });
+      legs.push(leg);
+      continue;
+    }
+    const r = await act(leg.reservation!.id);
+    reservations.push(r);
+    if (r.status === "expired") skipped.push({ day: leg.day, reason: `the hold at ${r.placeName} lapsed` });
+    legs.push({ ...leg, reservation: toLeg(r) });
+  }
+  return { itinerary: legs, reservations, skipped };
+}
@@ -0,0 +1,95 @@
+// lib/booking/mock.ts
+import crypto from "node:crypto";
+import { placeById, placesIn } from "@/lib/places/search";
+import type { BookingProvider, Offer, Reservation } from "@/lib/booking/types";
+
+/** How long a mock hold lasts before it lapses */
+export const MOCK_HOLD_MINUTES = 30;
+
+/** Stable pseudo-availability: the same place and night always start with the same free beds */
+function freeBeds(placeId: string, date: string, beds: number): number {
+  let h = 0;
+  for (const ch of `${placeId}@${date}`) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return h % 5 === 0 ? 0 : Math.max(1, Math.round((beds * (h % 100)) / 100)); // ~1 in 5 nights full
+}
+
+/**
+ * In-memory provider over the bundled albergue list, for local development.
+ * State lives per server instance and is lost on restart, like the plan store.
+ */
+export function createMockProvider(now: () => number = Date.now): BookingProvider {
+  const reservations = new Map<string, Reservation>();
+
+  // Lapse holds whose time is up before anyone reads them
+  const current = (id: string): Reservation => {
+    const r = reservations.get(id);
+    if (!r) throw new Error(`Unknown reservation ${id}`);
+    if (r.status === "held" && r.heldUntil && Date.parse(r.heldUntil) <= now()) r.status = "expired";
+    return r;
+  };
+
+  const taken = (placeId: string, date: string) =>
+    [...reservations.keys()].map(current)
+      .filter(r => r.placeId === placeId && r.date === date && (r.status === "held" || r.status === "confirmed"))
+      .reduce((n, r) => n + r.guests, 0);
+
+  const offersFor = (town: string, date: string): Offer[] =>
+    placesIn(town)
+      .filter(p => p.kind === "albergue")
+      .map(p => ({
+        offerId: `${p.id}@${date}`,
+        placeId: p.id,
+        placeName: p.name,
+        town: p.town,
+        date,
+        type: p.type,
+        priceBand: p.priceBand,
+        bedsLeft: Math.max(0, freeBeds(p.id, date, p.beds ?? 10) - taken(p.id, date)),
+      }));
+
+  return {
+    name: "mock",
+
+    async search({ town, date, guests }) {
+      return offersFor(town, date).filter(o => o.bedsLeft >= guests);
+    },
+
+    async hold(offerId, guests) {
+      const [placeId, date] = offerId.split("@");
+      const place = placeById(placeId);
+      if (!place || !date) throw new Error(`Unknown offer ${offerId}`);
+      const offer = offersFor(place.town, date).find(o => o.offerId === offerId);
+      if (!offer || offer.bedsLeft < guests) throw new Error(`${place.name} has no ${guests} free bed(s) on ${date}`);
+
+      const r: Reservation = {
+        id: `mock-${crypto.randomUUID().slice(0, 8)}`,
+        provider: "mock",
+        placeId,
+        placeName: offer.placeName,
+        town: offer.town,
+        date,
+        guests,
+        status: "held",
+        heldUntil: new Date(now() + MOCK_HOLD_MINUTES * 60_000).toISOString(),
+      };
+      reservations.set(r.id, r);
+      return { ...r };
+    },
+
+    async confirm(id) {
+      const r = current(id);
+      if (r.status === "held") {
+        r.status = "confirmed";
+        r.reference = `MOCK-${id.slice(5, 11).toUpperCase()}`;
+        delete r.heldUntil;
+      }
+      return { ...r };
+    },
+
+    async cancel(id) {
+      const r = current(id);
+      if (r.status === "held" || r.status === "confirmed") r.status = "cancelled";
+      return { ...r };
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// lib/booking/provider.ts
+import { createMockProvider } from "@/lib/booking/mock";
+import type { BookingProvider } from "@/lib/booking/types";
+
+/** Known backends by `BOOKING_PROVIDER`; add real ones here */
+const FACTORIES: Record<string, () => BookingProvider> = {
+  mock: () => createMockProvider(),
+};
+
+let provider: BookingProvider | undefined;
+
+/** The configured booking provider (one per server instance; default: the in-memory mock) */
+export function getBookingProvider(): BookingProvider {
+  if (!provider) {
+    const name = process.env.BOOKING_PROVIDER || "mock";
+    const factory = FACTORIES[name];
+    if (!factory) throw new Error(`Unknown BOOKING_PROVIDER "${name}" (known: ${Object.keys(FACTORIES).join(", ")})`);
+    provider = factory();
+  }
+  return provider;
+}
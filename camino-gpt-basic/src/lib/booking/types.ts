@@ -0,0 +1,45 @@
+// lib/booking/types.ts
+import type { AlbergueKind, BudgetTier } from "@/lib/preferences";
+
+export const RESERVATION_STATUSES = ["held", "confirmed", "cancelled", "expired"] as const;
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+
+/** A bed offer for one night at one place */
+export type Offer = {
+  offerId: string;
+  placeId: string;
+  placeName: string;
+  town: string;
+  date: string;            // ISO night
+  type?: AlbergueKind;
+  priceBand?: BudgetTier;
+  bedsLeft: number;
+};
+
+export type Reservation = {
+  id: string;
+  provider: string;        // BookingProvider.name that owns it
+  placeId: string;
+  placeName: string;
+  town: string;
+  date: string;            // ISO night
+  guests: number;
+  status: ReservationStatus;
+  heldUntil?: string;      // ISO timestamp a hold lapses at
+  reference?: string;      // provider's confirmation code
+};
+
+export type BookingSearch = { town: string; date: string; guests: number };
+
+/**
+ * What the lodging tools need from a booking backend. Holds are short-lived
+ * and free; confirm turns a live hold into a booking. Calls reject on
+ * unknown ids or offers that are no longer available.
+ */
+export interface BookingProvider {
+  name: string;
+  search(q: BookingSearch): Promise<Offer[]>;
+  hold(offerId: string, guests: number): Promise<Reservation>;
+  confirm(reservationId: string): Promise<Reservation>;
+  cancel(reservationId: string): Promise<Reservation>;
+}
@@ -0,0 +1,145 @@
+// lib/calendar.ts
+import type { Itinerary, Leg } from "@/lib/leg";
+
+export const REGIONS = ["spain", "galicia", "portugal"] as const;
+export type Region = typeof REGIONS[number];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Fixed-date public holidays ("MM-DD") that close shops, by region (Galicia also gets Spain's) */
+const FIXED_HOLIDAYS: Record<Region, Record<string, string>> = {
+  spain: {
+    "01-01": "Año Nuevo",
+    "01-06": "Epifanía",
+    "05-01": "Fiesta del Trabajo",
+    "08-15": "Asunción",
+    "10-12": "Fiesta Nacional de España",
+    "11-01": "Todos los Santos",
+    "12-06": "Día de la Constitución",
+    "12-08": "Inmaculada Concepción",
+    "12-25": "Navidad",
+  },
+  galicia: {
+    "05-17": "Día das Letras Galegas",
+    "07-25": "Día Nacional de Galicia (Santiago Apóstol)",
+  },
+  portugal: {
+    "01-01": "Ano Novo",
+    "04-25": "Dia da Liberdade",
+    "05-01": "Dia do Trabalhador",
+    "06-10": "Dia de Portugal",
+    "08-15": "Assunção",
+    "10-05": "Implantação da República",
+    "11-01": "Todos os Santos",
+    "12-01": "Restauração da Independência",
+    "12-08": "Imaculada Conceição",
+    "12-25": "Natal",
+  },
+};
+
+/** Easter-relative holidays (days from Easter Sunday) */
+const EASTER_HOLIDAYS: Record<Region, Record<number, string>> = {
+  spain: { [-3]: "Jueves Santo", [-2]: "Viernes Santo" },
+  galicia: {},
+  portugal: { [-2]: "Sexta-feira Santa", 0: "Páscoa", 60: "Corpo de Deus" },
+};
+
+const toUtc = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const toIso = (d: Date) => d.toISOString().slice(0, 10);
+
+/** "YYYY-MM-DD" naming a real day: "2026-02-30" would roll over to 2 March, so it must round-trip */
+export function isIsoDate(s: unknown): s is string {
+  if (typeof s !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+  const d = toUtc(s);
+  return !Number.isNaN(d.getTime()) && toIso(d) === s;
+}
+
+export function addDays(iso: string, n: number): string {
+  const d = toUtc(iso);
+  d.setUTCDate(d.getUTCDate() + n);
+  return toIso(d);
+}
+
+/** "Tue 12 May" */
+export function formatShortDate(iso: string): string {
+  const d = toUtc(iso);
+  return `${WEEKDAYS[d.getUTCDay()]} ${d.getUTCDate()} ${MONTHS[d.getUTCMonth()]}`;
+}
+
+/** Easter Sunday (Gregorian, anonymous algorithm) as ISO date */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Coarse region by coordinates: Portugal south of the Miño, Galicia west of O Cebreiro / the Eo */
+export function regionOf(lat: number, lon: number): Region {
+  if (lat < 42.0 && lon < -8.1) return "portugal";
+  if (lon < -7.035 && lat > 41.8) return "galicia";
+  return "spain";
+}
+
+/** Name of the public holiday on `iso` in `region`, if any */
+export function holidayOn(iso: string, region: Region): string | undefined {
+  const regions: Region[] = region === "galicia" ? ["galicia", "spain"] : [region];
+  const mmdd = iso.slice(5);
+  const easter = easterSunday(Number(iso.slice(0, 4)));
+  const fromEaster = Math.round((toUtc(iso).getTime() - toUtc(easter).getTime()) / 86_400_000);
+  for (const r of regions) {
+    const name = FIXED_HOLIDAYS[r][mmdd] ?? EASTER_HOLIDAYS[r][fromEaster];
+    if (name) return name;
+  }
+  return undefined;
+}
+
+/**
+ * Start date mentioned in free text: ISO ("2026-05-12"), "12 May" or "May 12"
+ * (with optional year; without one, the next such date from `today`).
+ */
+export function parseStartDate(text: string, today = new Date()): string | undefined {
+  const iso = text.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+  if (iso && isIsoDate(iso[1])) return iso[1];
+
+  const months = MONTHS.map(m => m.toLowerCase()).join("|");
+  const dm = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${months})[a-z]*\\.?(?:,?\\s+(\\d{4}))?`, "i"));
+  const md = text.match(new RegExp(`\\b(${months})[a-z]*\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`, "i"));
+  const hit = dm ? { day: dm[1], mon: dm[2], year: dm[3] } : md ? { day: md[2], mon: md[1], year: md[3] } : undefined;
+  if (!hit) return undefined;
+
+  const month = MONTHS.findIndex(m => m.toLowerCase() === hit.mon.slice(0, 3).toLowerCase()) + 1;
+  const pad = (n: number | string) => String(n).padStart(2, "0");
+  const todayIso = toIso(today);
+  let year = hit.year ? Number(hit.year) : today.getUTCFullYear();
+  let candidate = `${year}-${pad(month)}-${pad(hit.day)}`;
+  if (!hit.year && candidate < todayIso) candidate = `${++year}-${pad(month)}-${pad(hit.day)}`;
+  return isIsoDate(candidate) ? candidate : undefined;
+}
+
+/** Stamp calendar dates (and holidays at each night's town) on consecutive legs from `startDate` */
+export function withDates(itinerary: Itinerary, startDate?: string): Itinerary {
+  if (!isIsoDate(startDate)) return itinerary;
+  return itinerary.map((leg, i) => {
+    const date = addDays(startDate, i);
+    const holiday = holidayOn(date, regionOf(leg.toLat, leg.toLon));
+    return { ...leg, date, holiday };
+  });
+}
+
+/** "Tue 12 May" when dated, else "Day N" */
+export function legLabel(leg: Pick<Leg, "day" | "date">): string {
+  return isIsoDate(leg.date) ? formatShortDate(leg.date) : `Day ${leg.day}`;
+}
@@ -0,0 +1,55 @@
+// lib/compostela.ts
+import type { Itinerary } from "@/lib/leg";
+import { findTown, resolveRoute } from "@/lib/stages/registry";
+
+/** Pilgrim's Office rules for walkers */
+export const COMPOSTELA_MIN_KM = 100;
+export const STAMPS_PER_DAY_FINAL = 2; // two sellos a day over the last 100 km
+export const STAMPS_PER_DAY = 1;
+
+const SANTIAGO = "Santiago de Compostela";
+
+export type CompostelaCheck = {
+  eligible: boolean;
+  startKmFromSantiago: number | null; // null when the start town is not in the route data
+  stamps: Array<{ day: number; required: number }>;
+  issues: string[];                   // why the plan does not qualify
+  suggestedStart?: string;            // closest town that does qualify
+};
+
+/**
+ * Does walking this itinerary earn the Compostela? Uses the route's kmFromSantiago:
+ * the walk must end in Santiago and start at least 100 km out.
+ */
+export function checkCompostela(itinerary: Itinerary): CompostelaCheck {
+  const first = itinerary[0];
+  const last = itinerary[itinerary.length - 1];
+  const route = resolveRoute([first?.from, last?.to], first?.route);
+  const issues: string[] = [];
+
+  const kmOf = (name?: string) => (name ? findTown(name, route.id)?.kmFromSantiago : undefined);
+  const startKm = kmOf(first?.from);
+
+  // Two stamps a day once any part of the day is inside the final 100 km
+  const stamps = itinerary.filter(leg => !leg.rest).map(leg => {
+    const toKm = kmOf(leg.to);
+    const final = route.direction === "toSantiago" && toKm !== undefined && toKm < COMPOSTELA_MIN_KM;
+    return { day: leg.day, required: final ? STAMPS_PER_DAY_FINAL : STAMPS_PER_DAY };
+  });
+
+  if (route.direction === "fromSantiago") {
+    issues.push(`The ${route.name} walks away from Santiago; it earns its own certificate, not the Compostela.`);
+  } else if (findTown(last?.to ?? "", route.id)?.name !== SANTIAGO) {
+    issues.push(`The plan ends in ${last?.to ?? "an unknown town"}, not Santiago; the Compostela is collected on arrival there.`);
+  }
+
+  let suggestedStart: string | undefined;
+  if (startKm === undefined) {
+    issues.push(`Cannot verify the distance from ${first?.from ?? "the start"} to Santiago.`);
+  } else if (route.direction === "toSantiago" && startKm < COMPOSTELA_MIN_KM) {
+    issues.push(`${first.from} is only ${startKm} km from Santiago; the last ${COMPOSTELA_MIN_KM} km must be walked.`);
+    suggestedStart = [...route.towns].reverse().find(t => (t.kmFromSantiago ?? 0) >= COMPOSTELA_MIN_KM)?.name;
+  }
+
+  return { eligible: issues.length === 0, startKmFromSantiago: startKm ?? null, stamps, issues, suggestedStart };
+}
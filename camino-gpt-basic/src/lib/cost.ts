@@ -0,0 +1,122 @@
+// lib/cost.ts
+import type { BudgetTier, CaminoPreferences, Currency } from "@/lib/preferences";
+import { placesIn } from "@/lib/places/search";
+import type { Itinerary, Leg } from "@/lib/leg";
+
+/** Rough 2025 prices in EUR per person; estimates, not quotes */
+const DORM_EUR = { municipal: 10, parochial: 8 } as const; // parochial = suggested donation
+const PRIVATE_DORM_EUR: Record<BudgetTier, number> = { $: 12, $$: 15, $$$: 20 };
+const UNLISTED_DORM_EUR = 14;
+const ROOM_EUR: Record<BudgetTier, number> = { $: 30, $$: 40, $$$: 60 }; // own room, per person
+const MEALS_EUR: Record<BudgetTier, { breakfast: number; lunch: number; dinner: number }> = {
+  $: { breakfast: 3, lunch: 8, dinner: 10 },     // supermarket + pilgrim menu
+  $$: { breakfast: 5, lunch: 12, dinner: 14 },
+  $$$: { breakfast: 8, lunch: 18, dinner: 25 },
+};
+const PICNIC_EUR = 6;
+export const LUGGAGE_EUR = 6;    // per bag per walking day
+export const CREDENCIAL_EUR = 2; // pilgrim passport, bought once
+
+/** Display rates from EUR (approximate; costs are always computed in EUR) */
+export const EUR_RATES: Record<Currency, number> = { EUR: 1, USD: 1.08, GBP: 0.85 };
+
+export const BED_KINDS = ["dorm", "room"] as const;
+export type BedKind = typeof BED_KINDS[number];
+
+/** One day's estimate, in EUR */
+export type DayCost = {
+  bed: BedKind;
+  bedEur: number;
+  mealsEur: number;
+  luggageEur?: number;
+  passportEur?: number;
+  totalEur: number;
+};
+
+export type CostSummary = {
+  tier: BudgetTier;
+  currency: Currency;
+  rate: number;          // multiply EUR by this to display in `currency`
+  totalEur: number;
+  roomNights: number;
+  dormNights: number;
+  targetEur?: number;    // total the walker asked to stay under
+  overEur?: number;      // how far over it the cheapest beds still are
+};
+
+type Prefs = Partial<CaminoPreferences>;
+export type CostOptions = { tier?: BudgetTier; targetEur?: number };
+
+/** Cheapest dorm bed in the night's town among the walker's albergue kinds */
+function dormEur(town: string, prefs: Prefs, tier: BudgetTier): number {
+  const albergues = placesIn(town).filter(p => p.kind === "albergue");
+  const wanted = albergues.filter(a => !prefs.albergueKinds?.length || (a.type && prefs.albergueKinds.includes(a.type)));
+  const prices = (wanted.length ? wanted : albergues).map(a =>
+    a.type === "municipal" || a.type === "parochial" ? DORM_EUR[a.type] : PRIVATE_DORM_EUR[a.priceBand ?? tier]
+  );
+  return prices.length ? Math.min(...prices) : UNLISTED_DORM_EUR;
+}
+
+function dayCost(leg: Leg, bed: BedKind, prefs: Prefs, tier: BudgetTier): DayCost {
+  const meals = MEALS_EUR[tier];
+  const picnic = leg.food?.some(f => f.meal === "picnic");
+  const bedEur = bed === "room" ? ROOM_EUR[tier] : dormEur(leg.to, prefs, tier);
+  const mealsEur = meals.breakfast + (picnic ? PICNIC_EUR : meals.lunch) + meals.dinner;
+  const luggageEur = prefs.luggageTransfer && !leg.rest ? LUGGAGE_EUR : undefined;
+  const passportEur = leg.day === 1 ? CREDENCIAL_EUR : undefined;
+  return {
+    bed, bedEur, mealsEur, luggageEur, passportEur,
+    totalEur: bedEur + mealsEur + (luggageEur ?? 0) + (passportEur ?? 0),
+  };
+}
+
+const total = (costs: DayCost[]) => costs.reduce((n, c) => n + c.totalEur, 0);
+
+/**
+ * Stamp a per-day cost estimate on every leg. Nights are private rooms when the
+ * walker prefers them, dorms otherwise; with a target total, rooms are used
+ * wherever the target allows (dropping the priciest upgrades first). Nights
+ * already held or booked count as dorm beds.
+ */
+export function withCosts(itinerary: Itinerary, prefs: Prefs = {}, opts: CostOptions = {}): Itinerary {
+  const tier = opts.tier ?? prefs.budget ?? "$$";
+  const booked = (leg: Leg) => !!leg.reservation && leg.reservation.status !== "cancelled" && leg.reservation.status !== "expired";
+  const wantRoom = opts.targetEur !== undefined || !!prefs.privateRoomPreferred;
+
+  const costs = itinerary.map(leg => dayCost(leg, wantRoom && !booked(leg) ? "room" : "dorm", prefs, tier));
+  if (opts.targetEur !== undefined) {
+    const upgrades = costs
+      .map((c, i) => ({ i, saving: c.bed === "room" ? c.bedEur - dormEur(itinerary[i].to, prefs, tier) : 0 }))
+      .filter(u => u.saving > 0)
+      .sort((a, b) => b.saving - a.saving);
+    for (const { i } of upgrades) {
+      if (total(costs) <= opts.targetEur) break;
+      costs[i] = dayCost(itinerary[i], "dorm", prefs, tier);
+    }
+  }
+  return itinerary.map((leg, i) => ({ ...leg, cost: costs[i] }));
+}
+
+/** Trip total and bed mix of an itinerary that went through `withCosts` */
+export function summarizeCosts(itinerary: Itinerary, prefs: Prefs = {}, opts: CostOptions = {}): CostSummary {
+  const costs = itinerary.map(l => l.cost).filter((c): c is DayCost => !!c);
+  const currency = prefs.currency ?? "EUR";
+  const totalEur = total(costs);
+  return {
+    tier: opts.tier ?? prefs.budget ?? "$$",
+    currency,
+    rate: EUR_RATES[currency],
+    totalEur,
+    roomNights: costs.filter(c => c.bed === "room").length,
+    dormNights: costs.filter(c => c.bed === "dorm").length,
+    targetEur: opts.targetEur,
+    overEur: opts.targetEur !== undefined && totalEur > opts.targetEur ? totalEur - opts.targetEur : undefined,
+  };
+}
+
+/** A trip budget stated in euros ("€800", "900 euros", "1,200 EUR") */
+export function budgetFromText(text: string): number | undefined {
+  const m = text.match(/€\s*(\d[\d,.]*)|(\d[\d,.]*)\s*(?:€|eur(?:os?)?\b)/i);
+  const n = m ? Number((m[1] ?? m[2]).replace(/[,.](?=\d{3}\b)/g, "")) : NaN;
+  return n > 0 ? n : undefined;
+}
@@ -0,0 +1,121 @@
+// lib/dem.ts
+import fs from "node:fs";
+import path from "node:path";
+import { haversineKm } from "@/lib/geo";
+import { trailElevationAt } from "@/lib/stages/trail";
+
+/** Where SRTM .hgt tiles live (e.g. data/dem/N42W009.hgt); missing tiles fall back to trail elevations */
+const DEM_DIR = process.env.DEM_DIR || path.join(process.cwd(), "data", "dem");
+
+const SAMPLE_STEP_KM = 0.1;  // resample long segments so climbs between vertices are not missed
+const NOISE_M = 5;           // ignore wiggles smaller than this when summing ascent/descent
+const VOID = -32768;         // SRTM "no data"
+
+type Tile = { size: number; data: Buffer };
+
+// Loaded tiles by name; null = not on disk (so we only look once)
+const tiles = new Map<string, Tile | null>();
+
+function tileName(lat: number, lon: number): string {
+  const la = Math.floor(lat);
+  const lo = Math.floor(lon);
+  const ns = la >= 0 ? "N" : "S";
+  const ew = lo >= 0 ? "E" : "W";
+  return `${ns}${String(Math.abs(la)).padStart(2, "0")}${ew}${String(Math.abs(lo)).padStart(3, "0")}.hgt`;
+}
+
+function loadTile(name: string): Tile | null {
+  if (tiles.has(name)) return tiles.get(name)!;
+  let tile: Tile | null = null;
+  try {
+    const data = fs.readFileSync(path.join(DEM_DIR, name));
+    const size = Math.round(Math.sqrt(data.length / 2)); // 1201 (3") or 3601 (1")
+    if (size * size * 2 === data.length) tile = { size, data };
+    else console.warn(`[dem] ignoring ${name}: unexpected size ${data.length}`);
+  } catch {
+    // no tile on disk
+  }
+  tiles.set(name, tile);
+  return tile;
+}
+
+/** Elevation (m) from the DEM with bilinear interpolation, or null without a tile */
+export function demElevation(lat: number, lon: number): number | null {
+  const tile = loadTile(tileName(lat, lon));
+  if (!tile) return null;
+
+  const n = tile.size - 1;
+  const y = (Math.floor(lat) + 1 - lat) * n; // rows run north → south
+  const x = (lon - Math.floor(lon)) * n;
+  const r = Math.min(Math.floor(y), n - 1);
+  const c = Math.min(Math.floor(x), n - 1);
+  const cell = (row: number, col: number) => tile.data.readInt16BE((row * tile.size + col) * 2);
+
+  const corners = [cell(r, c), cell(r, c + 1), cell(r + 1, c), cell(r + 1, c + 1)];
+  if (corners.some(v => v === VOID)) {
+    const valid = corners.filter(v => v !== VOID);
+    return valid.length ? valid.reduce((a, b) => a + b, 0) / valid.length : null;
+  }
+  const [fy, fx] = [y - r, x - c];
+  const top = corners[0] * (1 - fx) + corners[1] * fx;
+  const bottom = corners[2] * (1 - fx) + corners[3] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+export type ElevationSample = { distKm: number; elevM: number };
+/** `approximate`: some samples came from town altitudes rather than the DEM, so climbs between towns are missing */
+export type ElevationProfile = { profile: ElevationSample[]; ascentM: number; descentM: number; approximate: boolean };
+
+/** Total climb and drop, ignoring changes smaller than NOISE_M */
+function climb(elevations: number[]): { ascentM: number; descentM: number } {
+  let ascentM = 0;
+  let descentM = 0;
+  let ref = elevations[0];
+  for (const e of elevations) {
+    if (e - ref >= NOISE_M) { ascentM += e - ref; ref = e; }
+    else if (ref - e >= NOISE_M) { descentM += ref - e; ref = e; }
+  }
+  return { ascentM: Math.round(ascentM), descentM: Math.round(descentM) };
+}
+
+/**
+ * Elevation profile along [lon, lat(, ele)] coords at real cumulative distances.
+ * Elevation comes from the DEM, else the coordinate's own elevation, else the nearest bundled trail;
+ * the profile is flagged `approximate` as soon as one sample misses the DEM.
+ */
+export function elevationProfile(coords: number[][]): ElevationProfile {
+  const samples: Array<{ lon: number; lat: number; ele?: number; distKm: number }> = [];
+  let distKm = 0;
+  coords.forEach((c, i) => {
+    const point = { lon: c[0], lat: c[1], ele: c[2] };
+    if (i > 0) {
+      const prev = coords[i - 1];
+      const segKm = haversineKm({ lon: prev[0], lat: prev[1] }, point);
+      const steps = Math.max(1, Math.ceil(segKm / SAMPLE_STEP_KM));
+      for (let s = 1; s < steps; s++) {
+        const t = s / steps;
+        samples.push({
+          lon: prev[0] + t * (c[0] - prev[0]),
+          lat: prev[1] + t * (c[1] - prev[1]),
+          ele: prev[2] !== undefined && c[2] !== undefined ? prev[2] + t * (c[2] - prev[2]) : undefined,
+          distKm: distKm + t * segKm,
+        });
+      }
+      distKm += segKm;
+    }
+    samples.push({ ...point, distKm });
+  });
+
+  const profile: ElevationSample[] = [];
+  let last = 0;
+  let approximate = false;
+  for (const s of samples) {
+    const dem = demElevation(s.lat, s.lon);
+    if (dem === null) approximate = true;
+    const elevM = dem ?? s.ele ?? trailElevationAt(s) ?? last;
+    profile.push({ distKm: Math.round(s.distKm * 1000) / 1000, elevM: Math.round(elevM) });
+    last = elevM;
+  }
+
+  return { profile, ...climb(profile.map(p => p.elevM)), approximate };
+}
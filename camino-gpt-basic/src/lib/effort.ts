@@ -0,0 +1,72 @@
+// lib/effort.ts
+import type { Itinerary, Leg } from "@/lib/leg";
+
+export const DIFFICULTIES = ["easy", "moderate", "hard", "very hard"] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+/** Naismith's rule with a loaded-pilgrim pace: 4.5 km/h on the flat + 1 h per 600 m of climb */
+export const FLAT_KMH = 4.5;
+export const CLIMB_M_PER_HOUR = 600;
+
+/** Planner-facing bounds: days outside these need the user to ask for them */
+export const MIN_WALK_MINUTES = 2 * 60;
+export const MAX_WALK_MINUTES = 8 * 60;
+
+export const BREAK_MIN_PER_HOUR = 10; // coffee / bocadillo stops on top of walking time
+const ARRIVE_BY_MINUTES = 14 * 60; // beat the afternoon heat and the albergue queue
+const EARLIEST_START = 6 * 60 + 30;
+const LATEST_START = 9 * 60;
+
+/** Upper bound (effort-km) of each grade, in DIFFICULTIES order; above the last is "very hard" */
+const GRADE_LIMITS = [20, 28, 36];
+
+export type Effort = {
+  walkMinutes: number;
+  effortKm: number;
+  difficulty: Difficulty;
+  suggestedStart: string; // "HH:MM"
+};
+
+/** Walking time in minutes (no breaks) by Naismith's rule */
+export function naismithMinutes(km: number, ascentM = 0): number {
+  return Math.round((km / FLAT_KMH + ascentM / CLIMB_M_PER_HOUR) * 60);
+}
+
+/** Effort-km ("Leistungskilometer"): distance plus 1 km per 100 m up and per 150 m down */
+export function effortKm(km: number, ascentM = 0, descentM = 0): number {
+  return Math.round((km + ascentM / 100 + descentM / 150) * 10) / 10;
+}
+
+function grade(ekm: number): Difficulty {
+  const i = GRADE_LIMITS.findIndex(limit => ekm < limit);
+  return DIFFICULTIES[i === -1 ? DIFFICULTIES.length - 1 : i];
+}
+
+const hhmm = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+/** Start early enough to arrive by early afternoon, rounded to the quarter hour */
+function suggestedStart(walkMinutes: number): string {
+  const withBreaks = walkMinutes * (1 + BREAK_MIN_PER_HOUR / 60);
+  const start = Math.floor((ARRIVE_BY_MINUTES - withBreaks) / 15) * 15;
+  return hhmm(Math.min(LATEST_START, Math.max(EARLIEST_START, start)));
+}
+
+export function legEffort(leg: Pick<Leg, "km" | "ascentM" | "descentM" | "rest">): Effort | undefined {
+  if (typeof leg.km !== "number" || leg.rest) return undefined;
+  const walkMinutes = naismithMinutes(leg.km, leg.ascentM);
+  const ekm = effortKm(leg.km, leg.ascentM, leg.descentM);
+  return { walkMinutes, effortKm: ekm, difficulty: grade(ekm), suggestedStart: suggestedStart(walkMinutes) };
+}
+
+/** Add effort estimates to every walking leg that has a distance */
+export function withEffort(itinerary: Itinerary): Itinerary {
+  return itinerary.map(leg => ({ ...leg, ...legEffort(leg) }));
+}
+
+/** "5h 20m" */
+export function formatDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h ? `${h}h${m ? ` ${m}m` : ""}` : `${m}m`;
+}
@@ -1,9 +1,12 @@
 // lib/executor.ts
 import { PlanSchema, type Plan, type PlanStepT } from "@/lib/schemas";
 import { runTool, type ToolKey, type ToolContext } from "@/lib/toolRegistry";
+import { splitStages } from "@/lib/stages/splitter";
+import { isRouteId, resolveRoute } from "@/lib/stages/registry";
+import type { RouteId } from "@/lib/stages/types";
 
 /** NEW: simple itinerary type */
-type ItinDay = { day: number; from?: string; to?: string; distanceKm?: number; note?: string };
+type ItinDay = { day: number; date?: string; rest?: boolean; from?: string; to?: string; distanceKm?: number; note?: string };
 
 /** Per-step execution log for observability / debugging */
 export type StepLog = {
@@ -27,8 +30,12 @@ export type ExecuteOptions = {
   prependClear?: boolean; // default true
 };
 
+/** Structured `data` a tool returned, for the route to explain (e.g. an infeasible request) */
+export type StepOutput = { id: string; tool: string; data: unknown };
+
 export type ExecuteResult = {
   actions: any[];
+  outputs: StepOutput[];
   nextIndex: number;
   paused: boolean;
   logs: StepLog[];
@@ -36,11 +43,17 @@ export type ExecuteResult = {
   itinerary?: ItinDay[] | null;
 };
 
+/** Tools with real-world side effects: their step always waits for the user's approval */
+export const APPROVAL_REQUIRED: ReadonlySet<string> = new Set<ToolKey>(["lodging.confirm"]);
+
 /** Validate a raw plan shape and return a typed Plan (throws on invalid). */
 export function validatePlan(plan: unknown): Plan {
   const parsed = PlanSchema.safeParse(plan);
   if (!parsed.success) throw new Error(parsed.error.toString());
-  return parsed.data;
+  return {
+    ...parsed.data,
+    steps: parsed.data.steps.map((s) => (APPROVAL_REQUIRED.has(s.tool) ? { ...s, pauseForUser: true } : s)),
+  };
 }
 
 /** Returns true if any step at or after startIndex is marked pauseForUser. */
@@ -62,8 +75,8 @@ async function withTimeout<T>(p: Promise<T>, ms: number) {
   ]);
 }
 
-/** NEW: extract itinerary from a drawRoute step’s args if present */
-function extractItineraryFromPlan(plan: Plan): ItinDay[] | null {
+/** NEW: extract itinerary from a drawRoute step’s args if present (`clientRoute` beats the planner's, as in map.drawRoute) */
+function extractItineraryFromPlan(plan: Plan, clientRoute?: RouteId): ItinDay[] | null {
   const step = plan.steps.find((s) => s.tool === "map.drawRoute");
   if (!step || !step.args) return null;
   const a: any = step.args;
@@ -122,6 +135,28 @@ function extractItineraryFromPlan(plan: Plan): ItinDay[] | null {
     return itinerary;
   }
 
+  // Intent only: let the stage splitter derive the days
+  try {
+    const startName = a.meta?.startName ?? (typeof a.start === "string" ? a.start : undefined);
+    const endName = a.meta?.endName ?? (typeof a.end === "string" ? a.end : undefined);
+    const route = resolveRoute([startName, endName], clientRoute ?? (isRouteId(a.route) ? a.route : undefined)).id;
+    const legs = splitStages({
+      route,
+      start: startName,
+      end: endName,
+      days: typeof a.days === "number" ? a.days : undefined,
+      targetStageKm: typeof a.targetStageKm === "number" ? a.targetStageKm : undefined,
+      mustStop: Array.isArray(a.mustStop) ? a.mustStop : undefined,
+      minKm: typeof a.minKm === "number" ? a.minKm : undefined,
+      maxKm: typeof a.maxKm === "number" ? a.maxKm : undefined,
+      avoidEnding: Array.isArray(a.avoidEnding) ? a.avoidEnding : undefined,
+      restIn: Array.isArray(a.restIn) ? a.restIn : undefined,
+      splitDays: Array.isArray(a.splitDays) ? a.splitDays : undefined,
+      startDate: typeof a.startDate === "string" ? a.startDate : undefined,
+    });
+    return legs.map((leg) => ({ day: leg.day, date: leg.date, rest: leg.rest, from: leg.from, to: leg.to, distanceKm: leg.km }));
+  } catch { /* unknown towns: fall through */ }
+
   // fallback if start/end only
   if (a.start || a.end) return [{ day: 1, from: a.start, to: a.end }];
   return null;
@@ -149,7 +184,9 @@ export async function executePlan(opts: ExecuteOptions): Promise<ExecuteResult>
 
   const actions: any[] = [];
   const logs: StepLog[] = [];
+  const outputs: StepOutput[] = [];
   let itinerary: ItinDay[] | null = null; // NEW
+  const runCtx: ToolContext = { ...ctx }; // later steps see the itinerary earlier ones produced
 
   const pauseIdx = honorPause ? findPauseIndex(plan, startIndex) : -1;
   const finalStopExclusive = pauseIdx >= 0 ? pauseIdx : plan.steps.length;
@@ -180,7 +217,7 @@ export async function executePlan(opts: ExecuteOptions): Promise<ExecuteResult>
       try {
         console.log(`[debug] Tool ${toolName} attempt ${attempt + 1}`);
         // Expect tools may return { uiActions, itinerary? }
-        const res: any = await withTimeout(runTool(toolName, step.args, ctx), timeoutMs);
+        const res: any = await withTimeout(runTool(toolName, step.args, runCtx), timeoutMs);
         console.log(`[debug] Tool ${toolName} returned:`, { 
           hasUiActions: Array.isArray(res?.uiActions), 
           hasItinerary: Array.isArray(res?.itinerary),
@@ -192,9 +229,11 @@ export async function executePlan(opts: ExecuteOptions): Promise<ExecuteResult>
           console.log(`[debug] Adding ${res.uiActions.length} UI actions`);
           actions.push(...res.uiActions);
         }
+        if (res?.data !== undefined) outputs.push({ id: step.id, tool: step.tool, data: res.data });
         if (Array.isArray(res?.itinerary)) {
           console.log(`[debug] Setting itinerary with ${res.itinerary.length} legs`);
           itinerary = res.itinerary; // NEW: prefer tool-provided
+          runCtx.itinerary = res.itinerary;
         }
 
         success = true;
@@ -210,7 +249,7 @@ export async function executePlan(opts: ExecuteOptions): Promise<ExecuteResult>
             idx: i, id: step.id, tool: step.tool, status: "error",
             latencyMs: Date.now() - t0, errorCode: errorMsg,
           });
-          return { actions, nextIndex: i, paused: false, logs, itinerary };
+          return { actions, outputs, nextIndex: i, paused: false, logs, itinerary };
         }
       }
     }
@@ -223,10 +262,13 @@ export async function executePlan(opts: ExecuteOptions): Promise<ExecuteResult>
     itineraryLength: itinerary?.length
   });
 
+  // No tool produced one: keep the itinerary the client is showing (e.g. after booking-only steps)
+  if (!itinerary && ctx.itinerary?.length) itinerary = ctx.itinerary;
+
   // If no tool produced one, try to derive from the plan once
   if (!itinerary) {
     console.log(`[debug] No itinerary from tools, trying to extract from plan`);
-    itinerary = extractItineraryFromPlan(plan);
+    itinerary = extractItineraryFromPlan(plan, ctx.route);
     console.log(`[debug] Extracted itinerary:`, { hasItinerary: !!itinerary, length: itinerary?.length });
     if (itinerary) {
       console.log(`[debug] Extracted itinerary details:`, itinerary.map(leg => ({ day: leg.day, from: leg.from, to: leg.to, km: leg.distanceKm })));
@@ -235,6 +277,7 @@ export async function executePlan(opts: ExecuteOptions): Promise<ExecuteResult>
 
   return {
     actions,
+    outputs,
     nextIndex: i,
     paused: honorPause && pauseIdx >= 0 && i === pauseIdx,
     logs,
@@ -0,0 +1,258 @@
+// lib/export/booklet.ts
+import { legLabel } from "@/lib/calendar";
+import { formatDuration } from "@/lib/effort";
+import { escapeXml } from "@/lib/export/gpx";
+import { createPdf, wrapText, type Rgb } from "@/lib/export/pdf";
+import { placeSubtitle, placesIn } from "@/lib/places/search";
+import { SERVICE_LABELS, servicesAlong } from "@/lib/places/services";
+import { legCoordinates } from "@/lib/stages/splitter";
+import { formatClimb, formatDistance, formatDistanceWithUnit, slugify } from "@/lib/utils";
+import type { Itinerary, Leg } from "@/lib/leg";
+
+const MAX_LODGING = 8;
+const MAX_SERVICES = 10;
+
+const FOOD_LABELS = { lunch: "Lunch", picnic: "Picnic lunch, buy at", resupply: "Resupply" } as const;
+
+/** One page of the booklet: a walking day or a rest day */
+export type BookletDay = {
+  heading: string;          // "Day 3 · Sun 3 May"
+  title: string;            // "Ligonde → Melide" / "Rest day in Melide"
+  facts: string[];          // distance, climb, walking time, grade, start time
+  path: number[][];         // [lon, lat] of the day's walk (empty on rest days)
+  sleep: { town: string; booked?: string; options: string[] };
+  services: string[];       // "km 4.2 · Water · Fonte do Peregrino"
+  food: string[];
+  notes?: string;
+};
+
+export type Booklet = { title: string; summary: string; days: BookletDay[] };
+
+function bookletDay(leg: Leg): BookletDay {
+  const r = leg.reservation;
+  const booked = r && (r.status === "confirmed" || r.status === "held")
+    ? `${r.status === "confirmed" ? "Booked" : "Held"}: ${r.placeName}${r.reference ? ` (ref ${r.reference})` : ""}`
+    : undefined;
+  const sleep = {
+    town: leg.to,
+    booked,
+    options: placesIn(leg.to)
+      .filter(p => p.kind === "albergue")
+      .slice(0, MAX_LODGING)
+      .map(p => `${p.name} · ${placeSubtitle(p)}`),
+  };
+  const heading = `Day ${leg.day}${leg.date ? ` · ${legLabel(leg)}` : ""}${leg.holiday ? ` · ${leg.holiday}` : ""}`;
+
+  if (leg.rest) {
+    return { heading, title: `Rest day in ${leg.to}`, facts: [], path: [], sleep, services: [], food: [], notes: leg.notes };
+  }
+
+  let services: string[] = [];
+  try {
+    services = servicesAlong({ route: leg.route, from: leg.from, to: leg.to })
+      .slice(0, MAX_SERVICES)
+      .map(s => `${s.alongKm !== undefined ? `km ${formatDistance(s.alongKm)} · ` : ""}${SERVICE_LABELS[s.kind]} · ${s.name}`);
+  } catch {
+    // towns outside the bundled stages (e.g. an itinerary from markers): no services list
+  }
+  return {
+    heading,
+    title: `${leg.from} → ${leg.to}`,
+    facts: [
+      formatDistanceWithUnit(leg.km, ""),
+      formatClimb(leg, " / "),
+      leg.walkMinutes ? `${formatDuration(leg.walkMinutes)} walking` : "",
+      leg.difficulty ?? "",
+      leg.suggestedStart ? `set off ${leg.suggestedStart}` : "",
+    ].filter(Boolean),
+    path: legCoordinates(leg),
+    sleep,
+    services,
+    food: (leg.food ?? []).map(f => `${FOOD_LABELS[f.meal]}: ${f.placeName}, ${f.town}${f.km ? ` · km ${formatDistance(f.km)}` : ""}`),
+    notes: leg.notes,
+  };
+}
+
+/** The printable content of an itinerary: a cover summary and one page per day */
+export function buildBooklet(itinerary: Itinerary, name?: string): Booklet {
+  const walking = itinerary.filter(l => !l.rest);
+  const totalKm = walking.reduce((n, l) => n + (l.km ?? 0), 0);
+  const first = itinerary[0];
+  const last = itinerary[itinerary.length - 1];
+  return {
+    title: name ?? `Camino: ${first.from} → ${last.to}`,
+    summary: [
+      `${walking.length} walking day${walking.length === 1 ? "" : "s"}`,
+      itinerary.length > walking.length ? `${itinerary.length - walking.length} rest` : "",
+      formatDistanceWithUnit(totalKm, ""),
+      first.date && last.date ? `${legLabel(first)} – ${legLabel(last)}` : "",
+    ].filter(Boolean).join(" · "),
+    days: itinerary.map(bookletDay),
+  };
+}
+
+/** Fit [lon, lat] points into a w×h box (north up, aspect kept, `pad` margin) */
+export function projectPath(path: number[][], w: number, h: number, pad = 12): number[][] {
+  if (!path.length) return [];
+  const kx = Math.cos((path[0][1] * Math.PI) / 180);
+  const xs = path.map(p => p[0] * kx);
+  const ys = path.map(p => p[1]);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const scale = Math.min((w - 2 * pad) / (maxX - minX || 1e-6), (h - 2 * pad) / (maxY - minY || 1e-6));
+  const [ox, oy] = [(w - (maxX - minX) * scale) / 2, (h - (maxY - minY) * scale) / 2];
+  return path.map((_, i) => [ox + (xs[i] - minX) * scale, h - (oy + (ys[i] - minY) * scale)]);
+}
+
+/** "camino-sarria-santiago-de-compostela" (add .pdf / .html) */
+export function bookletBasename(itinerary: Itinerary): string {
+  return slugify(`camino ${itinerary[0].from} ${itinerary[itinerary.length - 1].to}`);
+}
+
+// ---------- HTML ----------
+
+const MAP_W = 520;
+const MAP_H = 240;
+
+function svgMap(path: number[][]): string {
+  const pts = projectPath(path, MAP_W, MAP_H);
+  if (pts.length < 2) return "";
+  const [a, b] = [pts[0], pts[pts.length - 1]];
+  const line = pts.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(" ");
+  return `<svg class="map" viewBox="0 0 ${MAP_W} ${MAP_H}" width="100%" role="img" aria-label="Map of the day's walk">` +
+    `<polyline points="${line}" fill="none" stroke="#0f766e" stroke-width="3" stroke-linejoin="round" stroke-linecap="round"/>` +
+    `<circle cx="${a[0].toFixed(1)}" cy="${a[1].toFixed(1)}" r="6" fill="#16a34a"/>` +
+    `<circle cx="${b[0].toFixed(1)}" cy="${b[1].toFixed(1)}" r="6" fill="#dc2626"/></svg>`;
+}
+
+const list = (items: string[]) => `<ul>${items.map(i => `<li>${escapeXml(i)}</li>`).join("")}</ul>`;
+
+/**
+ * Print-ready HTML: a cover, then one A4 page per day. `pdfForm` adds a
+ * "Download PDF" button that posts the itinerary back for the PDF version.
+ */
+export function bookletHtml(booklet: Booklet, pdfForm?: { action: string; itinerary: string }): string {
+  const pages = booklet.days.map(d => `
+<section class="day">
+  <p class="heading">${escapeXml(d.heading)}</p>
+  <h2>${escapeXml(d.title)}</h2>
+  ${d.facts.length ? `<p class="facts">${escapeXml(d.facts.join(" · "))}</p>` : ""}
+  ${svgMap(d.path)}
+  <h3>Sleep in ${escapeXml(d.sleep.town)}</h3>
+  ${d.sleep.booked ? `<p class="booked">${escapeXml(d.sleep.booked)}</p>` : ""}
+  ${d.sleep.options.length ? list(d.sleep.options) : "<p>No albergues listed.</p>"}
+  ${d.services.length ? `<h3>Services on the way</h3>${list(d.services)}` : ""}
+  ${d.food.length ? `<h3>Food</h3>${list(d.food)}` : ""}
+  ${d.notes ? `<p class="notes">${escapeXml(d.notes)}</p>` : ""}
+</section>`).join("");
+
+  const toolbar = `<div class="toolbar"><button onclick="window.print()">Print</button>${pdfForm
+    ? `<form method="post" action="${escapeXml(pdfForm.action)}"><input type="hidden" name="format" value="pdf">` +
+      `<input type="hidden" name="itinerary" value="${escapeXml(pdfForm.itinerary)}"><button type="submit">Download PDF</button></form>`
+    : ""}</div>`;
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(booklet.title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font: 11pt/1.45 system-ui, -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; max-width: 180mm; margin: 0 auto; }
+  h1 { font-size: 24pt; margin: 40mm 0 4mm; }
+  h2 { font-size: 18pt; margin: 0 0 2mm; }
+  h3 { font-size: 12pt; margin: 5mm 0 1mm; }
+  ul { margin: 0; padding-left: 5mm; }
+  .day { break-before: page; }
+  .heading { color: #555; margin: 0 0 1mm; text-transform: uppercase; font-size: 9pt; letter-spacing: .05em; }
+  .facts { font-weight: 600; margin: 0 0 3mm; }
+  .map { border: 1px solid #ccc; border-radius: 4px; background: #f8faf9; }
+  .booked { color: #047857; font-weight: 600; margin: 0 0 1mm; }
+  .notes { color: #444; font-style: italic; }
+  .toolbar { display: flex; gap: 8px; margin: 4mm 0; }
+  @media print { .toolbar { display: none; } }
+</style>
+</head>
+<body>
+${toolbar}
+<h1>${escapeXml(booklet.title)}</h1>
+<p>${escapeXml(booklet.summary)}</p>
+${list(booklet.days.map(d => `${d.heading}: ${d.title}${d.facts[0] ? ` (${d.facts[0]})` : ""}`))}
+${pages}
+</body>
+</html>
+`;
+}
+
+// ---------- PDF ----------
+
+const MARGIN = 48;
+const GREY: Rgb = [0.35, 0.35, 0.35];
+const TEAL: Rgb = [0.06, 0.46, 0.43];
+
+/** The same booklet as a PDF: cover page, then one A4 page per day (long lists are cut to fit) */
+export function bookletPdf(booklet: Booklet): Buffer {
+  const pdf = createPdf();
+  const width = pdf.width - 2 * MARGIN;
+  const bottom = pdf.height - MARGIN;
+  let y = 0;
+
+  const para = (text: string, size = 10, opts: { bold?: boolean; color?: Rgb; indent?: number } = {}) => {
+    for (const line of wrapText(text, width - (opts.indent ?? 0), size, opts.bold)) {
+      if (y + size > bottom) return false;
+      y += size * 1.35;
+      pdf.text(MARGIN + (opts.indent ?? 0), y, line, { size, bold: opts.bold, color: opts.color });
+    }
+    return true;
+  };
+  const bullets = (items: string[]) => {
+    for (const item of items) if (!para(`• ${item}`, 9.5, { indent: 6 })) return;
+  };
+
+  pdf.addPage();
+  y = 180;
+  para(booklet.title, 24, { bold: true });
+  y += 6;
+  para(booklet.summary, 12, { color: GREY });
+  y += 12;
+  bullets(booklet.days.map(d => `${d.heading}: ${d.title}${d.facts[0] ? ` (${d.facts[0]})` : ""}`));
+
+  for (const d of booklet.days) {
+    pdf.addPage();
+    y = MARGIN - 4;
+    para(d.heading.toUpperCase(), 9, { color: GREY });
+    para(d.title, 18, { bold: true });
+    if (d.facts.length) para(d.facts.join(" · "), 11, { bold: true });
+
+    const pts = projectPath(d.path, width, 230);
+    if (pts.length >= 2) {
+      y += 8;
+      pdf.rect(MARGIN, y, width, 230, { fill: [0.97, 0.98, 0.98], stroke: { width: 0.5, color: [0.8, 0.8, 0.8] } });
+      const placed = pts.map(([x, py]) => [MARGIN + x, y + py]);
+      pdf.polyline(placed, { width: 2.5, color: TEAL });
+      pdf.dot(placed[0][0], placed[0][1], 4.5, [0.09, 0.64, 0.29]);
+      pdf.dot(placed[placed.length - 1][0], placed[placed.length - 1][1], 4.5, [0.86, 0.15, 0.15]);
+      y += 230 + 6;
+    }
+
+    y += 6;
+    para(`Sleep in ${d.sleep.town}`, 12, { bold: true });
+    if (d.sleep.booked) para(d.sleep.booked, 10, { bold: true, color: TEAL });
+    if (d.sleep.options.length) bullets(d.sleep.options);
+    else para("No albergues listed.", 9.5, { color: GREY });
+    if (d.services.length) {
+      y += 6;
+      para("Services on the way", 12, { bold: true });
+      bullets(d.services);
+    }
+    if (d.food.length) {
+      y += 6;
+      para("Food", 12, { bold: true });
+      bullets(d.food);
+    }
+    if (d.notes) {
+      y += 6;
+      para(d.notes, 9.5, { color: GREY });
+    }
+  }
+  return pdf.toBuffer(booklet.title);
+}
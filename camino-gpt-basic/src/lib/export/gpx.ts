@@ -0,0 +1,138 @@
+// lib/export/gpx.ts
+import { demElevation } from "@/lib/dem";
+import { legCoordinates } from "@/lib/stages/splitter";
+import { findTown } from "@/lib/stages/registry";
+import { legLabel } from "@/lib/calendar";
+import { formatClimb, formatDistanceWithUnit, slugify } from "@/lib/utils";
+import type { Itinerary } from "@/lib/leg";
+
+export type GpxWaypoint = { lat: number; lon: number; name: string; desc?: string; ele?: number; sym?: string };
+export type GpxTrack = { name: string; desc?: string; points: number[][] }; // [lon, lat(, ele)]
+
+export type GpxDocument = {
+  name: string;
+  desc?: string;
+  time?: string;       // ISO timestamp for <metadata>
+  waypoints?: GpxWaypoint[];
+  tracks: GpxTrack[];
+};
+
+const CREATOR = "Camino GPT";
+
+export function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+const tag = (name: string, value: string | undefined, indent: string) =>
+  value ? `${indent}<${name}>${escapeXml(value)}</${name}>\n` : "";
+
+const coord = (n: number) => n.toFixed(6).replace(/\.?0+$/, "");
+
+/** GPX 1.1 (metadata, then waypoints, then one track per entry; elements in schema order) */
+export function writeGpx(doc: GpxDocument): string {
+  let out = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  out += `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" `;
+  out += `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" `;
+  out += `xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">\n`;
+
+  out += "  <metadata>\n";
+  out += tag("name", doc.name, "    ");
+  out += tag("desc", doc.desc, "    ");
+  out += tag("time", doc.time ?? new Date().toISOString(), "    ");
+  out += "  </metadata>\n";
+
+  for (const w of doc.waypoints ?? []) {
+    out += `  <wpt lat="${coord(w.lat)}" lon="${coord(w.lon)}">\n`;
+    if (w.ele !== undefined) out += `    <ele>${Math.round(w.ele)}</ele>\n`;
+    out += tag("name", w.name, "    ");
+    out += tag("desc", w.desc, "    ");
+    out += tag("sym", w.sym, "    ");
+    out += "  </wpt>\n";
+  }
+
+  doc.tracks.forEach((t, i) => {
+    out += "  <trk>\n";
+    out += tag("name", t.name, "    ");
+    out += tag("desc", t.desc, "    ");
+    out += `    <number>${i + 1}</number>\n`;
+    out += "    <trkseg>\n";
+    for (const [lon, lat, ele] of t.points) {
+      out += ele !== undefined
+        ? `      <trkpt lat="${coord(lat)}" lon="${coord(lon)}"><ele>${Math.round(ele)}</ele></trkpt>\n`
+        : `      <trkpt lat="${coord(lat)}" lon="${coord(lon)}"/>\n`;
+    }
+    out += "    </trkseg>\n";
+    out += "  </trk>\n";
+  });
+
+  return `${out}</gpx>\n`;
+}
+
+/** Elevation from the DEM, else the coordinate's own, else none */
+const withEle = ([lon, lat, ele]: number[]) => {
+  const e = demElevation(lat, lon) ?? ele;
+  return e === undefined ? [lon, lat] : [lon, lat, e];
+};
+
+/**
+ * The itinerary as GPX: one track per walking day ("Day 2: Portomarín → Palas de Rei")
+ * and a waypoint at the start and at every overnight stop.
+ */
+export function itineraryToGpx(itinerary: Itinerary, name?: string): string {
+  const walking = itinerary.filter(l => !l.rest);
+  const first = itinerary[0];
+  const last = itinerary[itinerary.length - 1];
+  const title = name ?? `Camino: ${first.from} → ${last.to}`;
+  const totalKm = walking.reduce((n, l) => n + (l.km ?? 0), 0);
+
+  const waypoints: GpxWaypoint[] = [];
+  const start = first.fromLat !== undefined && first.fromLon !== undefined
+    ? { lat: first.fromLat, lon: first.fromLon }
+    : findTown(first.from, first.route);
+  if (start) {
+    waypoints.push({ lat: start.lat, lon: start.lon, name: first.from, desc: "Start", sym: "Flag, Green" });
+  }
+  for (const leg of itinerary) {
+    const desc = [
+      leg.rest ? `Rest day (${legLabel(leg)})` : `End of ${legLabel(leg)}`,
+      leg.rest ? "" : formatDistanceWithUnit(leg.km, ""),
+      leg.reservation ? `${leg.reservation.status === "confirmed" ? "Booked" : "Bed held"}: ${leg.reservation.placeName}` : "",
+      leg.notes ?? "",
+    ].filter(Boolean).join(" · ");
+    const prev = waypoints[waypoints.length - 1];
+    if (leg.rest && prev?.name === leg.to) {
+      prev.desc = `${prev.desc} · ${desc}`;
+      continue;
+    }
+    const ele = demElevation(leg.toLat, leg.toLon) ?? undefined;
+    waypoints.push({ lat: leg.toLat, lon: leg.toLon, name: leg.to, desc, ele, sym: "Lodging" });
+  }
+
+  const tracks: GpxTrack[] = walking.map(leg => ({
+    name: `Day ${leg.day}: ${leg.from} → ${leg.to}`,
+    desc: [
+      leg.date,
+      formatDistanceWithUnit(leg.km, ""),
+      formatClimb(leg, " · "),
+      leg.difficulty ?? "",
+    ].filter(Boolean).join(" · "),
+    points: legCoordinates(leg).map(withEle),
+  }));
+
+  return writeGpx({
+    name: title,
+    desc: `${walking.length} walking days · ${formatDistanceWithUnit(totalKm, "")}`,
+    waypoints,
+    tracks,
+  });
+}
+
+/** "camino-sarria-santiago-de-compostela.gpx" */
+export function gpxFilename(itinerary: Itinerary): string {
+  return `${slugify(`camino ${itinerary[0].from} ${itinerary[itinerary.length - 1].to}`)}.gpx`;
+}
@@ -0,0 +1,161 @@
+// lib/export/ics.ts
+import { addDays, isIsoDate } from "@/lib/calendar";
+import { formatDuration } from "@/lib/effort";
+import { formatClimb, formatDistanceWithUnit, slugify } from "@/lib/utils";
+import type { Itinerary, Leg } from "@/lib/leg";
+
+const PRODID = "-//Camino GPT//Itinerary//EN";
+const UID_DOMAIN = "camino-gpt";
+
+/** RFC 5545 TEXT escaping */
+export function escapeIcsText(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines at 75 octets (continuations start with a space) */
+function fold(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (parts.length ? 74 : 75), bytes.length);
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--; // don't split a UTF-8 character
+    parts.push(bytes.subarray(start, end).toString("utf8"));
+    start = end;
+  }
+  return parts.join("\r\n ");
+}
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+const utcStamp = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/** Local (floating) date-time: "08:00" on the day reads as 08:00 wherever the walker is */
+function localDateTime(iso: string, hhmm: string, plusMinutes = 0): string {
+  const [h, m] = hhmm.split(":").map(Number);
+  const total = h * 60 + m + plusMinutes;
+  const date = addDays(iso, Math.floor(total / (24 * 60)));
+  const mins = total % (24 * 60);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${icsDate(date)}T${pad(Math.floor(mins / 60))}${pad(mins % 60)}00`;
+}
+
+type IcsEvent = {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lon: number };
+  date: string;            // ISO day
+  start?: string;          // "HH:MM" local; all-day when absent
+  minutes?: number;
+};
+
+function eventLines(e: IcsEvent, stamp: string): string[] {
+  const when = e.start && e.minutes
+    ? [`DTSTART:${localDateTime(e.date, e.start)}`, `DTEND:${localDateTime(e.date, e.start, e.minutes)}`]
+    : [`DTSTART;VALUE=DATE:${icsDate(e.date)}`, `DTEND;VALUE=DATE:${icsDate(addDays(e.date, 1))}`];
+  return [
+    "BEGIN:VEVENT",
+    `UID:${e.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...when,
+    `SUMMARY:${escapeIcsText(e.summary)}`,
+    ...(e.description ? [`DESCRIPTION:${escapeIcsText(e.description)}`] : []),
+    ...(e.location ? [`LOCATION:${escapeIcsText(e.location)}`] : []),
+    ...(e.geo ? [`GEO:${e.geo.lat.toFixed(6)};${e.geo.lon.toFixed(6)}`] : []),
+    ...(when[0].includes("VALUE=DATE") ? ["TRANSP:TRANSPARENT"] : []), // all-day events don't block the calendar
+    "END:VEVENT",
+  ];
+}
+
+function legDescription(leg: Leg): string {
+  const r = leg.reservation;
+  return [
+    [
+      formatDistanceWithUnit(leg.km, ""),
+      leg.walkMinutes ? `about ${formatDuration(leg.walkMinutes)} walking` : "",
+      formatClimb(leg, " · "),
+      leg.difficulty ?? "",
+    ].filter(Boolean).join(" · "),
+    leg.suggestedStart ? `Set off around ${leg.suggestedStart}.` : "",
+    `Overnight in ${leg.to}.`,
+    r && r.status === "held" ? `Bed held at ${r.placeName}${r.heldUntil ? ` until ${r.heldUntil}` : ""} (not yet booked).` : "",
+    leg.holiday ? `${leg.holiday}: shops may be closed.` : "",
+    leg.notes ?? "",
+  ].filter(Boolean).join("\n");
+}
+
+/** Events for one leg: the walk (timed when a start time is known) or the rest day, plus a booked bed */
+function legEvents(leg: Leg & { date: string }, prefix: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  const geo = { lat: leg.toLat, lon: leg.toLon };
+  if (leg.rest) {
+    events.push({
+      uid: `${prefix}-day${leg.day}-rest@${UID_DOMAIN}`,
+      summary: `Rest day in ${leg.to}`,
+      description: [leg.holiday ? `${leg.holiday}: shops may be closed.` : "", leg.notes ?? ""].filter(Boolean).join("\n") || undefined,
+      location: leg.to,
+      geo,
+      date: leg.date,
+    });
+  } else {
+    events.push({
+      uid: `${prefix}-day${leg.day}@${UID_DOMAIN}`,
+      summary: `Day ${leg.day}: ${leg.from} → ${leg.to}${leg.km ? ` (${formatDistanceWithUnit(leg.km, "")})` : ""}`,
+      description: legDescription(leg),
+      location: leg.to,
+      geo,
+      date: leg.date,
+      start: leg.suggestedStart,
+      minutes: leg.walkMinutes,
+    });
+  }
+  const r = leg.reservation;
+  if (r?.status === "confirmed") {
+    events.push({
+      uid: `${prefix}-day${leg.day}-bed-${slugify(r.id)}@${UID_DOMAIN}`,
+      summary: `Bed booked: ${r.placeName}`,
+      description: [`Booked via ${r.provider}.`, r.reference ? `Reference: ${r.reference}` : ""].filter(Boolean).join("\n"),
+      location: `${r.placeName}, ${leg.to}`,
+      geo,
+      date: leg.date,
+    });
+  }
+  return events;
+}
+
+/**
+ * The itinerary as an iCalendar file: one event per day (timed from the
+ * suggested start for the estimated walking time, else all-day), rest days as
+ * all-day events and a booked bed as its own all-day event. UIDs are keyed by
+ * trip and day number, so re-importing a revised plan updates those events.
+ * Throws when the itinerary has no dates.
+ */
+export function itineraryToIcs(itinerary: Itinerary, name?: string): string {
+  const dated = itinerary.filter((l): l is Leg & { date: string } => isIsoDate(l.date));
+  if (!dated.length) throw new Error("The plan has no dates: give a start date to export it to a calendar");
+
+  const first = itinerary[0];
+  const last = itinerary[itinerary.length - 1];
+  const title = name ?? `Camino: ${first.from} → ${last.to}`;
+  const prefix = slugify(`${first.from} ${last.to} ${dated[0].date}`);
+  const stamp = utcStamp(new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(title)}`,
+    ...dated.flatMap(leg => legEvents(leg, prefix)).flatMap(e => eventLines(e, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/** "camino-sarria-santiago-de-compostela.ics" */
+export function icsFilename(itinerary: Itinerary): string {
+  return `${slugify(`camino ${itinerary[0].from} ${itinerary[itinerary.length - 1].to}`)}.ics`;
+}
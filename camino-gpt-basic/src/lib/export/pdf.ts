@@ -0,0 +1,159 @@
+// lib/export/pdf.ts
+
+/**
+ * Minimal PDF 1.4 writer: text in the standard Helvetica fonts (WinAnsi, so
+ * accented Spanish/Portuguese names print), lines, polylines, rectangles and
+ * dots. No embedding, no compression, no dependencies. Coordinates are in
+ * points from the TOP-left corner of the page.
+ */
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export type Rgb = [number, number, number]; // 0..1
+
+export type TextStyle = { size?: number; bold?: boolean; color?: Rgb };
+export type StrokeStyle = { width?: number; color?: Rgb; dash?: number[] };
+
+/** WinAnsi code points outside Latin-1 that show up in our text */
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+};
+/** Characters the standard fonts lack, spelled with ones they have */
+const SUBSTITUTES: Record<string, string> = { "→": "->", "←": "<-", "−": "-", "≈": "~", "✓": "v" };
+
+/** A PDF literal string: WinAnsi bytes, with non-ASCII and delimiters escaped */
+function pdfString(text: string): string {
+  let out = "";
+  for (const ch of text.replace(/[→←−≈✓]/g, c => SUBSTITUTES[c])) {
+    const code = WIN_ANSI[ch] ?? ch.codePointAt(0)!;
+    if (code === 0x28 || code === 0x29 || code === 0x5c) out += `\\${ch}`;
+    else if (code >= 0x20 && code < 0x7f) out += ch;
+    else if (code <= 0xff) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += "?";
+  }
+  return `(${out})`;
+}
+
+/** Helvetica advance widths (1/1000 em), coarse by character class; good enough to wrap lines */
+function charWidth(ch: string, bold: boolean): number {
+  if (" ,.;:'!|ijlIft[]()".includes(ch)) return bold ? 300 : 278;
+  if ("mwMW@".includes(ch)) return 833;
+  if (/[A-Z]/.test(ch) || "ÁÉÍÓÚÑÇ".includes(ch)) return bold ? 722 : 667;
+  if (/[0-9]/.test(ch)) return 556;
+  return bold ? 590 : 556;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let w = 0;
+  for (const ch of text) w += charWidth(ch, bold);
+  return (w * size) / 1000;
+}
+
+/** Break text into lines no wider than `maxWidth` */
+export function wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textWidth(next, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const rgb = (c: Rgb) => c.map(num).join(" ");
+
+export function createPdf(size = A4) {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  const y = (top: number) => num(size.height - top);
+
+  const stroke = (s: StrokeStyle = {}) =>
+    `${num(s.width ?? 1)} w ${rgb(s.color ?? [0, 0, 0])} RG [${(s.dash ?? []).map(num).join(" ")}] 0 d`;
+
+  return {
+    ...size,
+
+    addPage() {
+      ops = [];
+      pages.push(ops);
+    },
+
+    /** Text with its baseline at `top` */
+    text(x: number, top: number, text: string, style: TextStyle = {}) {
+      const font = style.bold ? "F2" : "F1";
+      ops.push(`BT ${rgb(style.color ?? [0, 0, 0])} rg /${font} ${num(style.size ?? 10)} Tf ${num(x)} ${y(top)} Td ${pdfString(text)} Tj ET`);
+    },
+
+    polyline(points: number[][], style?: StrokeStyle) {
+      if (points.length < 2) return;
+      const path = points.map(([px, py], i) => `${num(px)} ${y(py)} ${i ? "l" : "m"}`).join(" ");
+      ops.push(`q ${stroke(style)} 1 J 1 j ${path} S Q`);
+    },
+
+    rect(x: number, top: number, w: number, h: number, opts: { stroke?: StrokeStyle; fill?: Rgb } = {}) {
+      const shape = `${num(x)} ${y(top + h)} ${num(w)} ${num(h)} re`;
+      if (opts.fill) ops.push(`q ${rgb(opts.fill)} rg ${shape} f Q`);
+      if (opts.stroke) ops.push(`q ${stroke(opts.stroke)} ${shape} S Q`);
+    },
+
+    /** Filled circle (four Bézier quarters) */
+    dot(cx: number, cy: number, r: number, fill: Rgb) {
+      const k = 0.5523 * r;
+      const [X, Y] = [cx, size.height - cy];
+      ops.push(
+        `q ${rgb(fill)} rg ${num(X + r)} ${num(Y)} m ` +
+          `${num(X + r)} ${num(Y + k)} ${num(X + k)} ${num(Y + r)} ${num(X)} ${num(Y + r)} c ` +
+          `${num(X - k)} ${num(Y + r)} ${num(X - r)} ${num(Y + k)} ${num(X - r)} ${num(Y)} c ` +
+          `${num(X - r)} ${num(Y - k)} ${num(X - k)} ${num(Y - r)} ${num(X)} ${num(Y - r)} c ` +
+          `${num(X + k)} ${num(Y - r)} ${num(X + r)} ${num(Y - k)} ${num(X + r)} ${num(Y)} c f Q`
+      );
+    },
+
+    /** The finished file (all objects are ASCII, so string length = byte offset) */
+    toBuffer(title?: string): Buffer {
+      const objects: string[] = [];
+      const add = (body: string) => objects.push(body); // 1-based object number
+
+      const catalog = add("");
+      const pagesObj = add("");
+      const f1 = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      const f2 = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+      const info = add(`<< /Producer (Camino GPT)${title ? ` /Title ${pdfString(title)}` : ""} >>`);
+
+      const kids: number[] = [];
+      for (const content of pages.length ? pages : [[]]) {
+        const stream = content.join("\n");
+        const contents = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+        kids.push(add(
+          `<< /Type /Page /Parent ${pagesObj} 0 R /MediaBox [0 0 ${num(size.width)} ${num(size.height)}] ` +
+            `/Resources << /Font << /F1 ${f1} 0 R /F2 ${f2} 0 R >> >> /Contents ${contents} 0 R >>`
+        ));
+      }
+      objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesObj} 0 R >>`;
+      objects[pagesObj - 1] = `<< /Type /Pages /Kids [${kids.map(k => `${k} 0 R`).join(" ")}] /Count ${kids.length} >>`;
+
+      let out = "%PDF-1.4\n";
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        offsets.push(out.length);
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      });
+      const xref = out.length;
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      out += offsets.map(o => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+      out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+      return Buffer.from(out, "latin1");
+    },
+  };
+}
+
+export type PdfWriter = ReturnType<typeof createPdf>;
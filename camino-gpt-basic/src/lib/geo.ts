@@ -1,7 +1,7 @@
 // lib/geo.ts
 import { fetchWithTimeout } from "@/lib/net";
 
-type Point = { lat: number; lon: number };
+export type Point = { lat: number; lon: number };
 
 // Tiny in-memory cache to avoid hammering the geocoder
 const cache = new Map<string, Point>();
@@ -49,7 +49,18 @@ export async function geocodeOnline(query: string): Promise<Point | null> {
     return pt;
 }
 
-/** Build a simple straight LineString between two points (placeholder for real routing). */
+const EARTH_RADIUS_KM = 6371.0088;
+const rad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance in km */
+export function haversineKm(a: Point, b: Point): number {
+    const dLat = rad(b.lat - a.lat);
+    const dLon = rad(b.lon - a.lon);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Straight LineString between two points; last resort when no bundled trail covers them. */
 export function lineStringBetween(a: Point, b: Point) {
     return {
         type: "LineString",
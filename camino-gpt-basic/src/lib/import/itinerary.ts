@@ -0,0 +1,136 @@
+// lib/import/itinerary.ts
+import { haversineKm, type Point } from "@/lib/geo";
+import { splitStages } from "@/lib/stages/splitter";
+import { getTrail, nearestOnTrail } from "@/lib/stages/trail";
+import { ROUTE_LIST, ROUTES } from "@/lib/stages/registry";
+import type { CaminoRoute, RouteId, StageTown } from "@/lib/stages/types";
+import type { CaminoPreferences } from "@/lib/preferences";
+import type { Itinerary } from "@/lib/leg";
+import type { ImportedTrack } from "@/lib/import/track";
+
+/** A track point snaps to a stage town this close (km) */
+export const SNAP_KM = 3;
+
+/** The track must stay this close to a route's trail on average (km) to count as walking it */
+const MAX_MEAN_OFF_KM = 5;
+
+/** Track points tested against each route's trail */
+const SAMPLE_POINTS = 60;
+
+/** Where the overnight stops came from */
+export const STOP_SOURCES = ["segments", "waypoints", "split"] as const;
+export type StopSource = typeof STOP_SOURCES[number];
+
+export type TrackImport = {
+  itinerary: Itinerary;
+  route: RouteId;
+  stopsFrom: StopSource;
+  unmatched: string[];     // waypoints not near any stage town on the route
+};
+
+export type ImportOptions = {
+  route?: RouteId;
+  startDate?: string;
+  targetStageKm?: number;  // day length when the file marks no overnight stops
+  preferences?: Partial<CaminoPreferences>;
+};
+
+const at = (p: number[]): Point => ({ lon: p[0], lat: p[1] });
+
+function sample(points: number[][], n: number): number[][] {
+  if (points.length <= n) return points;
+  return Array.from({ length: n }, (_, i) => points[Math.round((i * (points.length - 1)) / (n - 1))]);
+}
+
+/** The route whose bundled trail the track follows most closely */
+function matchRoute(points: number[][]): CaminoRoute {
+  const probe = sample(points, SAMPLE_POINTS).map(at);
+  let best: { route: CaminoRoute; off: number } | undefined;
+  for (const route of ROUTE_LIST) {
+    if (!getTrail(route.id)) continue;
+    const off = probe.reduce((n, p) => n + nearestOnTrail(route.id, p).offKm, 0) / probe.length;
+    if (!best || off < best.off) best = { route, off };
+  }
+  if (!best || best.off > MAX_MEAN_OFF_KM) {
+    throw new Error("The track doesn't follow a Camino route we know (Francés, Portugués, Norte, Primitivo, Inglés, Finisterre)");
+  }
+  return best.route;
+}
+
+/** Nearest stage town on the route within `maxKm` */
+function snapToTown(route: CaminoRoute, p: Point, maxKm = SNAP_KM): StageTown | undefined {
+  let best: { town: StageTown; d: number } | undefined;
+  for (const town of route.towns) {
+    const d = haversineKm(p, town);
+    if (!best || d < best.d) best = { town, d };
+  }
+  return best && best.d <= maxKm ? best.town : undefined;
+}
+
+/**
+ * Turn an imported track into an itinerary on the bundled stage towns: the
+ * track's ends snap to the nearest towns, overnights come from the breaks
+ * between segments (one per day, as our own GPX export writes them), else from
+ * waypoints near stage towns, else the splitter picks them. A town that ends
+ * two segments in a row, or whose waypoint says "rest day", gets a rest day.
+ * Throws when the track is off every known route or its ends are not near a town.
+ */
+export function trackToItinerary(track: ImportedTrack, opts: ImportOptions = {}): TrackImport {
+  const points = track.segments.flat();
+  const route = opts.route ? ROUTES[opts.route] : matchRoute(points);
+
+  const start = snapToTown(route, at(points[0]));
+  const end = snapToTown(route, at(points[points.length - 1]));
+  if (!start || !end) {
+    throw new Error(`The track must start and end within ${SNAP_KM} km of a ${route.name} stage town`);
+  }
+  if (start === end) throw new Error(`The track starts and ends in ${start.name}`);
+
+  const [i, j] = [route.towns.indexOf(start), route.towns.indexOf(end)];
+  const between = (t: StageTown) => {
+    const k = route.towns.indexOf(t);
+    return (k - i) * (k - j) < 0;
+  };
+  const order = (t: StageTown) => Math.abs(route.towns.indexOf(t) - i);
+
+  let stops: StageTown[] = [];
+  let stopsFrom: StopSource = "split";
+  const unmatched: string[] = [];
+
+  if (track.segments.length > 1) {
+    track.segments.slice(0, -1).forEach((seg, k) => {
+      const town = snapToTown(route, at(seg[seg.length - 1]));
+      if (town && between(town)) stops.push(town);
+      else if (!town) unmatched.push(`end of day ${k + 1}`);
+    });
+    stopsFrom = "segments";
+  } else if (track.waypoints.length) {
+    for (const w of track.waypoints) {
+      const town = snapToTown(route, w);
+      if (town && between(town)) stops.push(town);
+      else if (!town) unmatched.push(w.name ?? `${w.lat.toFixed(4)}, ${w.lon.toFixed(4)}`);
+    }
+    stops = [...new Set(stops)].sort((a, b) => order(a) - order(b));
+    if (stops.length) stopsFrom = "waypoints";
+  }
+
+  // Consecutive days ending in the same town, or a waypoint saying so (as our export writes it): rest there
+  const overnights = stops.filter((t, k) => t !== stops[k - 1]);
+  const restIn = [...new Set([
+    ...stops.filter((t, k) => k > 0 && t === stops[k - 1]),
+    ...track.waypoints.filter(w => /\brest day\b/i.test(w.desc ?? "")).map(w => snapToTown(route, w)),
+  ])].filter((t): t is StageTown => !!t && overnights.includes(t)).map(t => t.name);
+  if (!overnights.length) stopsFrom = "split";
+
+  const itinerary = splitStages({
+    route: route.id,
+    start: start.name,
+    end: end.name,
+    ...(stopsFrom === "split"
+      ? { targetStageKm: opts.targetStageKm ?? opts.preferences?.targetStageKm }
+      : { days: overnights.length + 1, mustStop: overnights.map(t => t.name), restIn }),
+    startDate: opts.startDate,
+    preferences: opts.preferences,
+  });
+  return { itinerary, route: route.id, stopsFrom, unmatched };
+}
@@ -0,0 +1,172 @@
+// lib/import/track.ts
+
+/** Track files we can read (single source of truth; the TrackFormat union is derived from it) */
+export const TRACK_FORMATS = ["gpx", "kml", "geojson"] as const;
+export type TrackFormat = typeof TRACK_FORMATS[number];
+
+export type TrackWaypoint = { lat: number; lon: number; name?: string; desc?: string };
+
+/** A parsed track file: its lines ([lon, lat(, ele)] like GeoJSON positions) and named points */
+export type ImportedTrack = {
+  format: TrackFormat;
+  name?: string;
+  segments: number[][][];   // one per GPX trkseg / rte, KML LineString, GeoJSON line
+  waypoints: TrackWaypoint[];
+};
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (m, e: string) =>
+      e[0] !== "#" ? ENTITIES[e] ?? m : String.fromCodePoint(e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : Number(e.slice(1)))
+    )
+    .trim();
+}
+
+/** Inner text of every <tag>…</tag> (namespace prefixes allowed, e.g. gx:coord) */
+const blocks = (xml: string, tag: string) =>
+  [...xml.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "g"))].map(m => m[1]);
+
+const firstText = (xml: string, tag: string) => {
+  const [inner] = blocks(xml, tag);
+  return inner === undefined ? undefined : decodeXml(inner) || undefined;
+};
+
+const attr = (attrs: string, name: string) => {
+  const m = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return m ? Number(m[1]) : NaN;
+};
+
+const valid = (p: number[]) =>
+  Number.isFinite(p[0]) && Number.isFinite(p[1]) && Math.abs(p[1]) <= 90 && Math.abs(p[0]) <= 180;
+
+/** GPX <wpt>/<trkpt>/<rtept> elements, self-closing or with children */
+function gpxPoints(xml: string, tag: string): Array<{ pos: number[]; name?: string; desc?: string }> {
+  const out: Array<{ pos: number[]; name?: string; desc?: string }> = [];
+  for (const m of xml.matchAll(new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g"))) {
+    const [lat, lon] = [attr(m[1], "lat"), attr(m[1], "lon")];
+    const ele = m[2] ? Number(firstText(m[2], "ele")) : NaN;
+    const pos = Number.isFinite(ele) ? [lon, lat, ele] : [lon, lat];
+    if (valid(pos)) out.push({ pos, name: m[2] ? firstText(m[2], "name") : undefined, desc: m[2] ? firstText(m[2], "desc") : undefined });
+  }
+  return out;
+}
+
+export function parseGpx(xml: string): ImportedTrack {
+  const segments = [
+    ...blocks(xml, "trkseg").map(seg => gpxPoints(seg, "trkpt").map(p => p.pos)),
+    ...blocks(xml, "rte").map(rte => gpxPoints(rte, "rtept").map(p => p.pos)),
+  ].filter(s => s.length >= 2);
+  const waypoints = gpxPoints(xml, "wpt").map(({ pos: [lon, lat], name, desc }) => ({ lat, lon, name, desc }));
+  const meta = blocks(xml, "metadata")[0];
+  const trk = blocks(xml, "trk")[0];
+  return { format: "gpx", name: (meta && firstText(meta, "name")) ?? (trk && firstText(trk, "name")), segments, waypoints };
+}
+
+/** KML "lon,lat[,alt] lon,lat[,alt] …" */
+const kmlCoordinates = (text: string) =>
+  decodeXml(text).split(/\s+/).filter(Boolean).map(t => t.split(",").map(Number)).filter(valid);
+
+export function parseKml(xml: string): ImportedTrack {
+  const segments: number[][][] = [];
+  const waypoints: TrackWaypoint[] = [];
+  for (const placemark of blocks(xml, "Placemark")) {
+    const name = firstText(placemark, "name");
+    for (const line of blocks(placemark, "LineString")) segments.push(kmlCoordinates(firstText(line, "coordinates") ?? ""));
+    for (const track of blocks(placemark, "gx:Track")) {
+      segments.push(blocks(track, "gx:coord").map(c => decodeXml(c).split(/\s+/).map(Number)).filter(valid));
+    }
+    for (const point of blocks(placemark, "Point")) {
+      const [pos] = kmlCoordinates(firstText(point, "coordinates") ?? "");
+      if (pos) waypoints.push({ lat: pos[1], lon: pos[0], name });
+    }
+  }
+  const doc = blocks(xml, "Document")[0];
+  return {
+    format: "kml",
+    name: doc ? firstText(doc.replace(/<Placemark\b[\s\S]*?<\/Placemark>/g, ""), "name") : undefined,
+    segments: segments.filter(s => s.length >= 2),
+    waypoints,
+  };
+}
+
+type GeoJsonObject = {
+  type?: string;
+  name?: string;
+  properties?: Record<string, unknown> | null;
+  geometry?: GeoJsonObject | null;
+  geometries?: GeoJsonObject[];
+  features?: GeoJsonObject[];
+  coordinates?: unknown;
+};
+
+const positions = (c: unknown): number[][] =>
+  Array.isArray(c) ? c.filter((p): p is number[] => Array.isArray(p) && valid(p.map(Number))).map(p => p.map(Number)) : [];
+
+export function parseGeojson(text: string): ImportedTrack {
+  const root = JSON.parse(text) as GeoJsonObject;
+  const segments: number[][][] = [];
+  const waypoints: TrackWaypoint[] = [];
+
+  const visit = (o: GeoJsonObject | null | undefined, name?: string) => {
+    if (!o || typeof o !== "object") return;
+    switch (o.type) {
+      case "FeatureCollection":
+        return o.features?.forEach(f => visit(f));
+      case "Feature": {
+        const label = o.properties?.name ?? o.properties?.title;
+        return visit(o.geometry, typeof label === "string" ? label : undefined);
+      }
+      case "GeometryCollection":
+        return o.geometries?.forEach(g => visit(g, name));
+      case "LineString":
+        segments.push(positions(o.coordinates));
+        return;
+      case "MultiLineString":
+        if (Array.isArray(o.coordinates)) for (const line of o.coordinates) segments.push(positions(line));
+        return;
+      case "Point": {
+        const [pos] = positions([o.coordinates]);
+        if (pos) waypoints.push({ lat: pos[1], lon: pos[0], name });
+        return;
+      }
+    }
+  };
+  visit(root);
+
+  const name = root.name ?? root.properties?.name;
+  return {
+    format: "geojson",
+    name: typeof name === "string" ? name : undefined,
+    segments: segments.filter(s => s.length >= 2),
+    waypoints,
+  };
+}
+
+/** Format from the file extension, else from the content */
+export function detectFormat(text: string, filename = ""): TrackFormat | undefined {
+  const ext = filename.toLowerCase().match(/\.(\w+)$/)?.[1];
+  if (ext === "gpx" || ext === "kml") return ext;
+  if (ext === "geojson" || ext === "json") return "geojson";
+  const head = text.trimStart().slice(0, 1000);
+  if (head.startsWith("{")) return "geojson";
+  if (/<gpx\b/.test(head)) return "gpx";
+  if (/<kml\b/.test(head)) return "kml";
+  return undefined;
+}
+
+/** Parse a GPX, KML or GeoJSON file. Throws when the format is unknown or the file has no track */
+export function parseTrack(text: string, filename?: string): ImportedTrack {
+  const format = detectFormat(text, filename);
+  if (!format) throw new Error("Unrecognized track file: expected GPX, KML or GeoJSON");
+  let track: ImportedTrack;
+  try {
+    track = format === "gpx" ? parseGpx(text) : format === "kml" ? parseKml(text) : parseGeojson(text);
+  } catch {
+    throw new Error(`Could not read the ${format.toUpperCase()} file`);
+  }
+  if (!track.segments.length) throw new Error(`The ${format.toUpperCase()} file has no track or route line`);
+  return track;
+}
@@ -0,0 +1,166 @@
+// lib/intent.ts
+import { findTown, getRoute, knownTownNames, normalizeTownName, resolveRoute, routeFromText } from "@/lib/stages/registry";
+import type { SplitOptions } from "@/lib/stages/splitter";
+import { parseStartDate } from "@/lib/calendar";
+import type { ItineraryEdit } from "@/lib/schemas";
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+type Mention = { town: string; role: "start" | "end" | "stop" | "rest" | "avoid" | null };
+
+/** Role implied by the words right before a town name ("from X", "to Y", "via Z", "rest day in W") */
+function roleFromPrefix(before: string): Mention["role"] {
+  if (/\b(?:rest(?: days?)?|days? off|zero days?) (?:in|at)\s*$/.test(before)) return "rest";
+  if (/\b(?:avoid(?:ing)?(?: (?:ending|stopping|sleeping|staying)(?: in| at)?)?|not (?:stay|sleep|stop|end)(?:ing)? (?:in|at))\s*$/.test(before)) return "avoid";
+  const word = before.trim().split(/\s+/).pop() ?? "";
+  if (word === "from") return "start";
+  if (word === "to" || word === "until" || word === "till") return "end";
+  if (word === "via" || word === "through" || word === "thru" || word === "at") return "stop";
+  return null;
+}
+
+/** Known town names (and aliases) mentioned in the text, in order of appearance */
+function townMentions(text: string): Mention[] {
+  const haystack = normalizeTownName(text);
+  const names = knownTownNames()
+    .map(normalizeTownName)
+    .sort((a, b) => b.length - a.length); // longest first so "o pedrouzo" wins over "pedrouzo"
+
+  const hits: Array<{ at: number; end: number; name: string }> = [];
+  for (const name of names) {
+    const re = new RegExp(`(^|[^a-z])${escapeRe(name)}(?![a-z])`, "g");
+    for (const m of haystack.matchAll(re)) {
+      const at = (m.index ?? 0) + m[1].length;
+      const end = at + name.length;
+      if (hits.some(h => at < h.end && end > h.at)) continue;
+      hits.push({ at, end, name });
+    }
+  }
+
+  const mentions: Mention[] = [];
+  for (const h of hits.sort((a, b) => a.at - b.at)) {
+    const town = findTown(h.name)?.name;
+    if (!town || mentions.some(m => m.town === town)) continue;
+    mentions.push({ town, role: roleFromPrefix(haystack.slice(Math.max(0, h.at - 20), h.at)) });
+  }
+  return mentions;
+}
+
+/**
+ * Cheap, deterministic intent extraction used when the model is unavailable.
+ * Understands "from A to B", "via C", "in N days", "N km per day", route names,
+ * "max/min N km", "avoid sleeping in E", a start date, "rest day in D" and "split day N".
+ */
+export function intentFromText(text: string): SplitOptions {
+  const intent: SplitOptions = {};
+
+  const days = text.match(/(\d+)\s*-?\s*days?\b/i);
+  if (days) intent.days = Number(days[1]);
+
+  const km = String.raw`(\d+(?:[.,]\d+)?)\s*km`;
+  const maxKm = text.match(new RegExp(String.raw`\b(?:max(?:imum)?|at most|no more than|up to|under)\s*${km}`, "i"));
+  if (maxKm) intent.maxKm = Number(maxKm[1].replace(",", "."));
+  const minKm = text.match(new RegExp(String.raw`\b(?:min(?:imum)?|at least|no less than)\s*${km}`, "i"));
+  if (minKm) intent.minKm = Number(minKm[1].replace(",", "."));
+
+  // A bound ("max 25 km/day") is not a target; only read the target from what is left
+  const unbounded = [maxKm?.[0], minKm?.[0]].reduce<string>((t, m) => (m ? t.replace(m, "") : t), text);
+  const perDay = unbounded.match(/(\d+(?:[.,]\d+)?)\s*km\s*(?:\/|per|a|each)\s*day/i);
+  if (perDay) intent.targetStageKm = Number(perDay[1].replace(",", "."));
+
+  const mentions = townMentions(text);
+  const named = routeFromText(text);
+
+  // "Finisterre in 4 days": a lone town that also names the route is where the walk goes
+  const lone = mentions.length === 1 && mentions[0].role === null ? mentions[0] : undefined;
+  if (lone && named && getRoute(named).keywords.some(k => findTown(k, named)?.name === lone.town)) {
+    lone.role = "end";
+  }
+
+  const loose = mentions.filter(m => m.role === null).map(m => m.town);
+  intent.start = mentions.find(m => m.role === "start")?.town;
+  intent.end = mentions.find(m => m.role === "end")?.town;
+
+  // Unlabelled mentions: first is the start, last is the end, the rest are stops
+  if (!intent.start && loose.length) intent.start = loose.shift();
+  if (!intent.end && loose.length) intent.end = loose.pop();
+
+  const rests = mentions.filter(m => m.role === "rest").map(m => m.town);
+  const stops = [...mentions.filter(m => m.role === "stop").map(m => m.town), ...rests, ...loose];
+  if (stops.length) intent.mustStop = stops;
+  if (rests.length) intent.restIn = rests;
+  const avoid = mentions.filter(m => m.role === "avoid").map(m => m.town);
+  if (avoid.length) intent.avoidEnding = avoid;
+
+  const splitDays = [...text.matchAll(/\bsplit (?:day )?(\d+)/gi)].map(m => Number(m[1]));
+  if (splitDays.length) intent.splitDays = splitDays;
+
+  const startDate = parseStartDate(text);
+  if (startDate) intent.startDate = startDate;
+
+  for (const key of ["start", "end"] as const) if (!intent[key]) delete intent[key];
+
+  if (named || mentions.length) intent.route = resolveRoute([intent.start, intent.end, ...stops], named).id;
+  return intent;
+}
+
+const COUNT_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+/** "2 days off", "two rest days", "a zero day": how many rest days, and the phrase that said so */
+const REST_COUNT = /\b(\d+|an?|one|two|three|four|five)\s+(?:(?:rest|zero)\s+days?|days?\s+off)\b/i;
+
+/**
+ * Follow-ups that change the plan on screen rather than ask for a new one:
+ * "swap Melide for Boente", "sleep in Boente instead of Melide", "add a rest
+ * day in Arzúa", "take 2 days off in Burgos", "drop the rest day", "merge days 2 and 3", "split day 4",
+ * "start from Ferrol", "start on 3 May". Empty when the text reads as a new trip.
+ */
+export function editsFromText(text: string): ItineraryEdit[] {
+  const mentions = townMentions(text);
+  const restCount = text.match(REST_COUNT);
+  const fresh = /\b(?:new|another|different|fresh)\s+(?:plan|trip|route|itinerary|camino)\b/i.test(text)
+    || (mentions.some(m => m.role === "start") && mentions.some(m => m.role === "end"))
+    || /(\d+)\s*-?\s*days?\b/i.test(restCount ? text.replace(restCount[0], "") : text); // "N days" is a trip length, "N days off" is not
+  if (fresh) return [];
+
+  const edits: ItineraryEdit[] = [];
+
+  // Where to sleep: "swap/replace X for/with Y", "Y instead of X", "instead of X, stay in Y"
+  const [before, after] = text.split(/\binstead of\b/i);
+  const startWords = /\b(?:start|begin)\w*\b/i;
+  if (after !== undefined && !startWords.test(before)) {
+    const from = townMentions(after)[0]?.town;
+    const to = townMentions(before).pop()?.town ?? townMentions(after)[1]?.town;
+    if (from && to) edits.push({ op: "moveStop", from, to });
+  } else if (/\b(?:swap|replace|switch|change)\b/i.test(text) && mentions.length === 2) {
+    edits.push({ op: "moveStop", from: mentions[0].town, to: mentions[1].town });
+  }
+
+  // Rest days ("rest day in X" is the same mention role the trip intent uses)
+  const restWords = /\b(?:rest days?|days? off|zero days?)/i;
+  if (restWords.test(text)) {
+    const rests = mentions.filter(m => m.role === "rest").map(m => m.town);
+    if (/\b(?:remove|drop|skip|cancel|delete|no|without|lose)\b/i.test(text)) {
+      const day = Number(text.match(/\brest day (?:on )?day (\d+)/i)?.[1]) || undefined;
+      if (rests.length) for (const town of rests) edits.push({ op: "removeRest", town });
+      else edits.push({ op: "removeRest", day });
+    } else {
+      const count = restCount ? Number(restCount[1]) || COUNT_WORDS[restCount[1].toLowerCase()] : 1;
+      for (const town of rests) for (let i = 0; i < count; i++) edits.push({ op: "addRest", town });
+    }
+  }
+
+  for (const m of text.matchAll(/\b(?:merge|combine|join)\s+days?\s+(\d+)(?:\s*(?:and|&|\+|with|,)\s*(?:day\s+)?(\d+))?/gi)) {
+    const days = [Number(m[1]), Number(m[2] ?? m[1])];
+    edits.push({ op: "mergeDays", day: Math.min(...days) });
+  }
+  for (const m of text.matchAll(/\bsplit (?:day )?(\d+)/gi)) edits.push({ op: "splitDay", day: Number(m[1]) });
+
+  // A different start: a town ("start from Ferrol instead") and/or a date ("start on 3 May")
+  const startAt = text.match(/\b(?:start|begin)\w*\s+(?:walking\s+|the walk\s+)?(?:from|in|at)\s+(.+)/i);
+  const town = startAt ? townMentions(startAt[1])[0]?.town : undefined;
+  const date = startWords.test(text) ? parseStartDate(text) : undefined;
+  if (town || date) edits.push({ op: "changeStart", town, date });
+
+  return edits;
+}
@@ -1,14 +1,36 @@
 // lib/itinerary.ts
+import type { RouteId } from "@/lib/stages/types";
+import type { Difficulty } from "@/lib/effort";
+import type { Reservation } from "@/lib/booking/types";
+import type { FoodStop } from "@/lib/places/types";
+import type { DayCost } from "@/lib/cost";
+
+/** The booking a night carries (see lib/booking) */
+export type LegReservation = Pick<Reservation, "id" | "provider" | "placeName" | "status" | "heldUntil" | "reference">;
+
 export type Leg = {
   day: number;          // 1-based index for UI labeling
+  date?: string;        // ISO calendar date (when a start date is known)
   from: string;         // e.g., "Sarria"
   to: string;           // e.g., "Portomarín"
+  route?: RouteId;      // which Camino the towns belong to (default: Francés)
   km?: number;
   toLat: number;        // destination coordinates (end-of-day town center)
   toLon: number;
   fromLat?: number;     // starting coordinates (only needed for first leg)
   fromLon?: number;
-  ascentM?: number;
+  ascentM?: number;     // total climb over the day (m)
+  descentM?: number;    // total drop over the day (m)
+  climbApprox?: boolean; // ascent/descent from town altitudes, not DEM samples
+  walkMinutes?: number; // Naismith walking time, breaks excluded
+  effortKm?: number;    // distance + climb as equivalent flat km
+  difficulty?: Difficulty;
+  suggestedStart?: string; // "HH:MM" local time to set off
+  rest?: boolean;       // zero-km day spent in `to` (from === to)
+  holiday?: string;     // public holiday at the night's town: shops may be closed
+  reservation?: LegReservation; // bed held or booked for the night in `to`
+  food?: FoodStop[];    // lunch and resupply suggestions that fit the walker's diet
+  cost?: DayCost;       // estimated spend for the day and night, in EUR
   notes?: string;
 };
 
@@ -0,0 +1,30 @@
+// lib/llm/compatible.ts
+import OpenAI from "openai";
+import { requestOptions } from "@/lib/llm/openai";
+import type { PlannerProvider } from "@/lib/llm/types";
+
+/**
+ * Any server that speaks the OpenAI chat-completions API (Ollama, llama.cpp,
+ * vLLM, LM Studio…), for running the planner on a local model.
+ */
+export function createCompatibleProvider(opts: { baseURL: string; apiKey?: string; model: string }): PlannerProvider {
+  // Local servers ignore the key, but the SDK insists on one
+  const client = new OpenAI({ baseURL: opts.baseURL, apiKey: opts.apiKey || "local" });
+  return {
+    name: "compatible",
+    model: opts.model,
+    async complete(req) {
+      const res = await client.chat.completions.create({
+        model: opts.model,
+        messages: [
+          { role: "system", content: req.instructions },
+          { role: "user", content: req.input },
+        ],
+        temperature: req.temperature,
+        max_tokens: req.maxOutputTokens,
+        ...(req.json ? { response_format: { type: "json_object" as const } } : {}),
+      }, requestOptions(req));
+      return res.choices[0]?.message?.content ?? "";
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// lib/llm/fixture.ts
+import fs from "node:fs";
+import { z } from "zod";
+import type { CompletionRequest, PlannerProvider } from "@/lib/llm/types";
+
+/**
+ * One recorded reply. `match` is a case-insensitive regex on the request key
+ * (the user's ask for plans); JSON requests replay `plan`, others `text`.
+ */
+const FixtureSchema = z.object({
+  match: z.string().default(""),
+  plan: z.unknown().optional(),
+  text: z.string().optional(),
+  delayMs: z.number().int().nonnegative().optional(), // to exercise timeouts
+});
+export type Fixture = z.infer<typeof FixtureSchema>;
+
+export function loadFixtures(file: string): Fixture[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8")) as unknown;
+  const parsed = z.array(FixtureSchema).safeParse(raw);
+  if (!parsed.success) throw new Error(`Invalid planner fixtures in ${file}: ${parsed.error.toString()}`);
+  return parsed.data;
+}
+
+/** Resolve after `ms`, or reject as soon as the signal aborts */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Replays recorded replies with no network, for offline development and
+ * tests. The first fixture whose pattern matches wins; a request nothing
+ * matches rejects, so callers take their usual fallback.
+ */
+export function createFixtureProvider(fixtures: Fixture[]): PlannerProvider {
+  const patterns = fixtures.map(f => new RegExp(f.match, "i"));
+
+  const find = (req: CompletionRequest) =>
+    fixtures.find((f, i) => (req.json ? f.plan !== undefined : f.text !== undefined) && patterns[i].test(req.key ?? req.input));
+
+  return {
+    name: "fixture",
+    model: "fixture",
+    async complete(req) {
+      const fixture = find(req);
+      await wait(fixture?.delayMs ?? 0, req.signal);
+      if (!fixture) throw new Error(`No recorded ${req.json ? "plan" : "reply"} matches "${(req.key ?? req.input).slice(0, 80)}"`);
+      return req.json ? JSON.stringify(fixture.plan) : fixture.text!;
+    },
+  };
+}
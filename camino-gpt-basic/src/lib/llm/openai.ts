@@ -0,0 +1,30 @@
+// lib/llm/openai.ts
+import OpenAI from "openai";
+import type { CompletionRequest, PlannerProvider } from "@/lib/llm/types";
+
+/** Per-call options: no SDK retries (route.ts has its own time budget), and the caller's abort */
+export const requestOptions = (req: CompletionRequest) => ({
+  maxRetries: 0,
+  timeout: req.timeoutMs,
+  signal: req.signal,
+});
+
+/** The hosted OpenAI Responses API */
+export function createOpenAIProvider(opts: { apiKey?: string; model: string }): PlannerProvider {
+  const client = new OpenAI({ apiKey: opts.apiKey });
+  return {
+    name: "openai",
+    model: opts.model,
+    async complete(req) {
+      const res = await client.responses.create({
+        model: opts.model,
+        instructions: req.instructions,
+        input: [{ role: "user", content: req.input }],
+        temperature: req.temperature,
+        max_output_tokens: req.maxOutputTokens,
+        ...(req.json ? { text: { format: { type: "json_object" as const } } } : {}),
+      }, requestOptions(req));
+      return res.output_text ?? "";
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// lib/llm/provider.ts
+import path from "node:path";
+import { createOpenAIProvider } from "@/lib/llm/openai";
+import { createCompatibleProvider } from "@/lib/llm/compatible";
+import { createFixtureProvider, loadFixtures } from "@/lib/llm/fixture";
+import type { PlannerProvider } from "@/lib/llm/types";
+
+const env = process.env;
+
+/** Known backends by `PLANNER_PROVIDER` */
+const FACTORIES: Record<string, () => PlannerProvider> = {
+  openai: () => createOpenAIProvider({
+    apiKey: env.OPENAI_API_KEY,
+    model: env.PLANNER_MODEL || env.OPENAI_MODEL || "gpt-4o-mini",
+  }),
+  // e.g. Ollama: PLANNER_BASE_URL=http://localhost:11434/v1 PLANNER_MODEL=llama3.1
+  compatible: () => createCompatibleProvider({
+    baseURL: env.PLANNER_BASE_URL || "http://localhost:11434/v1",
+    apiKey: env.PLANNER_API_KEY,
+    model: env.PLANNER_MODEL || "llama3.1",
+  }),
+  fixture: () => createFixtureProvider(loadFixtures(
+    env.PLANNER_FIXTURES || path.join(process.cwd(), "data", "fixtures", "planner.json")
+  )),
+};
+
+let provider: PlannerProvider | undefined;
+
+/** The configured model backend (one per server instance; default: OpenAI) */
+export function getPlannerProvider(): PlannerProvider {
+  if (!provider) {
+    const name = env.PLANNER_PROVIDER || "openai";
+    const factory = FACTORIES[name];
+    if (!factory) throw new Error(`Unknown PLANNER_PROVIDER "${name}" (known: ${Object.keys(FACTORIES).join(", ")})`);
+    provider = factory();
+  }
+  return provider;
+}
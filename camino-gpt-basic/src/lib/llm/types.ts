@@ -0,0 +1,27 @@
+// lib/llm/types.ts
+
+/** One model call: system instructions plus a single user message */
+export type CompletionRequest = {
+  instructions: string;
+  input: string;
+  /** What recorded fixtures are matched on (default: input), e.g. the user's ask */
+  key?: string;
+  /** Ask for a single JSON object back */
+  json?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+  /** Cancels the upstream request, e.g. when route.ts gives up waiting */
+  signal?: AbortSignal;
+};
+
+/**
+ * What the planner and the answer writer need from a model backend: text in,
+ * text out. Calls reject on transport errors, timeouts and aborts; callers
+ * parse and validate the text themselves.
+ */
+export interface PlannerProvider {
+  name: string;
+  model: string;
+  complete(req: CompletionRequest): Promise<string>;
+}
@@ -1,12 +1,15 @@
 // lib/obs.ts
 import type { Plan } from "@/lib/schemas";
 import type { StepLog } from "@/lib/executor";
+import type { PlanAttempt } from "@/lib/planner";
 
 export type PlanRecord = {
   plan: Plan;
   model: string;
   createdAt: number;       // epoch ms
   steps: StepLog[];        // execution logs (append-only)
+  nextIndex?: number;      // first step still to run when execution paused for approval
+  attempts?: PlanAttempt[]; // planner calls, including repairs of invalid output
 };
 
 // In-memory store (per server instance). Replace with Supabase later.
@@ -22,6 +25,11 @@ export function appendSteps(planId: string, logs: StepLog[]) {
   rec.steps.push(...logs);
 }
 
+export function setNextIndex(planId: string, nextIndex: number) {
+  const rec = store.get(planId);
+  if (rec) rec.nextIndex = nextIndex;
+}
+
 export function getPlan(planId: string): PlanRecord | undefined {
   return store.get(planId);
 }
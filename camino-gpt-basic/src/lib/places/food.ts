@@ -0,0 +1,77 @@
+// lib/places/food.ts
+import type { CaminoPreferences, DietaryOption } from "@/lib/preferences";
+import type { Itinerary, Leg } from "@/lib/leg";
+import { BREAK_MIN_PER_HOUR, FLAT_KMH } from "@/lib/effort";
+import { searchPlaces } from "@/lib/places/search";
+import { findTown, resolveRoute } from "@/lib/stages/registry";
+import type { FoodStop, PlaceHit } from "@/lib/places/types";
+
+/** When pilgrims usually stop to eat, and when they set off if the day has no suggested start */
+export const LUNCH_AT = "13:00";
+const DEFAULT_START = "08:00";
+
+/** Lunch is not taken in the towns the day starts from or ends in */
+const MIN_LUNCH_KM = 2;
+
+const minutesOf = (hhmm: string) => Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3, 5));
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const stop = (meal: FoodStop["meal"], p: PlaceHit, km: number): FoodStop => ({
+  meal,
+  placeName: p.name,
+  town: p.town,
+  km: round1(km),
+  ...(p.diets?.length ? { diets: p.diets } : {}),
+});
+
+/** Along-track km the walker has reached at lunchtime, or undefined when they arrive first */
+export function lunchKm(leg: Leg): number | undefined {
+  const km = leg.km ?? 0;
+  const minutes = leg.walkMinutes ?? (km / FLAT_KMH) * 60;
+  if (!minutes) return undefined;
+  // clock time until lunch includes the breaks effort.ts plans for, so less of it is walking
+  const untilLunch = minutesOf(LUNCH_AT) - minutesOf(leg.suggestedStart ?? DEFAULT_START);
+  const walked = Math.max(0, untilLunch) / (1 + BREAK_MIN_PER_HOUR / 60);
+  return walked < minutes ? (walked / minutes) * km : undefined;
+}
+
+/**
+ * Lunch and resupply for one day, among places that cater for `diets`: lunch at
+ * the café or restaurant on the way nearest where the walker is at lunchtime (a
+ * picnic from a grocery at the start when none is; nothing when they arrive
+ * before lunch), resupply at the last grocery of the day (stock up for
+ * tomorrow). Rest days only resupply. Days between towns outside the bundled
+ * stages (e.g. an itinerary from markers) get none.
+ */
+export function foodStopsFor(leg: Leg, diets: DietaryOption[] = []): FoodStop[] {
+  const route = resolveRoute([leg.from, leg.to], leg.route).id;
+  if (!findTown(leg.from, route) || !findTown(leg.to, route)) return [];
+  const along = { route: leg.route, from: leg.from, to: leg.to, maxOffKm: 0.5 };
+  const found = searchPlaces({ along, diets, limit: 100 }).filter(p => p.kind !== "albergue");
+  const stops: FoodStop[] = [];
+
+  const target = leg.rest ? undefined : lunchKm(leg);
+  if (target !== undefined) {
+    const km = leg.km ?? 0;
+    const lunch = found
+      .filter(p => (p.kind === "cafe" || p.kind === "restaurant") && p.town !== leg.to)
+      .filter(p => (p.alongKm ?? 0) >= MIN_LUNCH_KM && (p.alongKm ?? 0) <= km - MIN_LUNCH_KM)
+      .sort((a, b) => Math.abs((a.alongKm ?? 0) - target) - Math.abs((b.alongKm ?? 0) - target))[0];
+    const picnic = found.find(p => p.kind === "grocery" && (p.alongKm ?? 0) < MIN_LUNCH_KM);
+    if (lunch) stops.push(stop("lunch", lunch, lunch.alongKm ?? 0));
+    else if (picnic) stops.push(stop("picnic", picnic, 0));
+  }
+
+  const grocery = found.filter(p => p.kind === "grocery").pop();
+  if (grocery) stops.push(stop("resupply", grocery, leg.rest ? 0 : grocery.alongKm ?? 0));
+  return stops;
+}
+
+/** Per-day food suggestions that respect the walker's dietary preferences */
+export function withFoodStops(itinerary: Itinerary, prefs: Partial<CaminoPreferences> = {}): Itinerary {
+  const diets = (prefs.dietary ?? []).filter(d => d !== "none");
+  return itinerary.map(leg => {
+    const food = foodStopsFor(leg, diets);
+    return food.length ? { ...leg, food } : leg;
+  });
+}
@@ -0,0 +1,100 @@
+// lib/places/score.ts
+import { BUDGET_TIERS, LABELS, type CaminoPreferences, type RouteStyle } from "@/lib/preferences";
+import { placesIn } from "@/lib/places/search";
+import { findTown } from "@/lib/stages/registry";
+import type { Itinerary } from "@/lib/leg";
+
+/** Dorms up to this size count as quiet */
+export const QUIET_MAX_BEDS = 40;
+
+/** One unit of penalty weighs like a day this many km off the target length */
+const PENALTY_UNIT_KM = 5;
+
+/** Scenic walkers trade more stage-length evenness for a better town; fast walkers less */
+const STYLE_WEIGHT: Record<RouteStyle, number> = { scenic: 1.5, balanced: 1, fast: 0.5 };
+
+export type TownScore = {
+  penalty: number;     // 0 = the town has everything asked for
+  reasons: string[];   // what fits ("municipal albergue (40 beds)")
+  misses: string[];    // what does not ("over your $ budget")
+};
+
+type Prefs = Partial<CaminoPreferences>;
+
+/** How well a town's listed albergues and services match the walker's preferences */
+export function scoreTown(town: string, prefs: Prefs = {}): TownScore {
+  const places = placesIn(town);
+  const reasons: string[] = [];
+  const misses: string[] = [];
+  let penalty = 0;
+
+  const albergues = places.filter(p => p.kind === "albergue");
+  const wanted = prefs.albergueKinds?.length
+    ? albergues.filter(a => a.type && prefs.albergueKinds!.includes(a.type))
+    : albergues;
+  const budget = prefs.budget ? BUDGET_TIERS.indexOf(prefs.budget) : Infinity;
+  const affordable = wanted.filter(a => !a.priceBand || BUDGET_TIERS.indexOf(a.priceBand) <= budget);
+
+  if (!albergues.length) {
+    // No albergue in the bundled list: with no bed preferences that's just unknown, otherwise it
+    // weighs like a listed town that misses them, so a partial match still wins
+    const picky = Boolean(prefs.albergueKinds?.length || prefs.budget || prefs.quietDormsPreferred || prefs.privateRoomPreferred);
+    return { penalty: picky ? 1 + (prefs.privateRoomPreferred ? 0.5 : 0) : 0, reasons, misses: ["no albergue listed"] };
+  }
+  if (!wanted.length) {
+    penalty += 1;
+    misses.push(`no ${prefs.albergueKinds!.join("/")} albergue`);
+  } else if (!affordable.length) {
+    penalty += 1;
+    misses.push(`over your ${prefs.budget} budget`);
+  } else {
+    // The albergue we'd suggest: the smallest dorm for light sleepers, else the biggest (most likely to have a bed)
+    const pick = [...affordable].sort((a, b) =>
+      prefs.quietDormsPreferred ? (a.beds ?? 0) - (b.beds ?? 0) : (b.beds ?? 0) - (a.beds ?? 0)
+    )[0];
+    reasons.push(`${pick.type ? LABELS.albergueKinds[pick.type].toLowerCase() : ""} albergue${pick.beds ? ` (${pick.beds} beds)` : ""}`.trim());
+    if (prefs.budget) reasons.push(`fits ${prefs.budget} budget`);
+    if (prefs.quietDormsPreferred && (pick.beds ?? Infinity) > QUIET_MAX_BEDS) {
+      penalty += 0.25;
+      misses.push("only large dorms");
+    }
+  }
+
+  if (prefs.privateRoomPreferred) {
+    if (albergues.some(a => a.type === "private")) reasons.push("private albergue (rooms likely)");
+    else {
+      penalty += 0.5;
+      misses.push("no private albergue listed");
+    }
+  }
+
+  const cafe = places.some(p => p.kind === "cafe");
+  const grocery = places.some(p => p.kind === "grocery");
+  if (cafe && grocery) reasons.push("café and grocery");
+  else if (!grocery) {
+    penalty += 0.25;
+    misses.push("no grocery listed");
+  }
+
+  return { penalty, reasons, misses };
+}
+
+/** Per-town cost for the stage splitter, in the same units as its squared km deviation */
+export function preferenceCosts(towns: string[], prefs: Prefs): number[] {
+  const weight = PENALTY_UNIT_KM ** 2 * STYLE_WEIGHT[prefs.routeStyle ?? "balanced"];
+  return towns.map(t => scoreTown(t, prefs).penalty * weight);
+}
+
+/** "Why Melide: municipal albergue (156 beds) · fits $$ budget · café and grocery" */
+export function townNote(town: string, prefs: Prefs = {}, asked = false): string {
+  const { reasons, misses } = scoreTown(town, prefs);
+  const why = [asked ? "you asked to stop here" : "", ...reasons].filter(Boolean);
+  if (!why.length) why.push("keeps the day close to the target length");
+  return `Why ${town}: ${why.join(" · ")}${misses.length ? ` (but ${misses.join(", ")})` : ""}`;
+}
+
+/** Stamp a "why this town" note on every walking day's overnight stop */
+export function withTownNotes(itinerary: Itinerary, prefs: Prefs = {}, mustStop: string[] = []): Itinerary {
+  const asked = new Set(mustStop.map(s => findTown(s)?.name ?? s));
+  return itinerary.map(leg => (leg.rest ? leg : { ...leg, notes: townNote(leg.to, prefs, asked.has(leg.to)) }));
+}
@@ -0,0 +1,165 @@
+// lib/places/search.ts
+import { haversineKm, type Point } from "@/lib/geo";
+import { BUDGET_TIERS, LABELS, type AlbergueKind, type BudgetTier, type DietaryOption } from "@/lib/preferences";
+import { findTown, knownTownNames, normalizeTownName, resolveRoute, townsBetween } from "@/lib/stages/registry";
+import { getTrail, nearestOnTrail, trailPositionsKm } from "@/lib/stages/trail";
+import type { RouteId } from "@/lib/stages/types";
+import { formatDistance, formatDistanceWithUnit } from "@/lib/utils";
+import type { Place, PlaceHit, PlaceKind, Season } from "@/lib/places/types";
+import data from "@/lib/places/places.json";
+
+const PLACES = data.places as Place[];
+
+export const DEFAULT_RADIUS_KM = 3;
+export const DEFAULT_MAX_OFF_KM = 1;
+export const DEFAULT_LIMIT = 20;
+
+export type PlacesQuery = {
+  near?: [number, number];  // [lon, lat]
+  radiusKm?: number;        // with `near` (or a town named in `q`)
+  along?: Stretch;
+  q?: string;               // a town ("Melide") or free text matched against names
+  kind?: PlaceKind;
+  type?: AlbergueKind;
+  maxPrice?: BudgetTier;
+  diets?: DietaryOption[];  // food places catering for every one of these ("none" is ignored)
+  openOn?: string;          // ISO date the place must be open on
+  limit?: number;
+};
+
+/** Is the season window open on an ISO date (no season = all year) */
+export function isOpenOn(season: Season | undefined, iso: string): boolean {
+  if (!season) return true;
+  const md = iso.slice(5, 10);
+  return season.from <= season.to
+    ? md >= season.from && md <= season.to
+    : md >= season.from || md <= season.to;
+}
+
+/** Does a food place cater for all of these diets (albergues and "none" always pass) */
+export function servesDiets(place: Place, diets: DietaryOption[] = []): boolean {
+  return place.kind === "albergue" || diets.every(d => d === "none" || place.diets?.includes(d));
+}
+
+/** Longest known town name contained in free text ("albergues in Palas de Rei" → Palas de Rei) */
+function townIn(text: string) {
+  const exact = findTown(text);
+  if (exact) return exact;
+  const haystack = ` ${normalizeTownName(text)} `;
+  const name = knownTownNames()
+    .map(normalizeTownName)
+    .sort((a, b) => b.length - a.length)
+    .find(n => haystack.includes(` ${n} `));
+  return name ? findTown(name) : undefined;
+}
+
+export type Stretch = { route?: RouteId; from: string; to: string; maxOffKm?: number };
+
+/**
+ * Points within `maxOffKm` of the trail between two towns, in walking order,
+ * tagged with their along-track km from `from` and their detour from the trail.
+ */
+export function alongStretch<T extends Point & { town?: string }>(
+  items: T[], stretch: Stretch
+): Array<T & { alongKm?: number; offKm?: number }> {
+  const route = resolveRoute([stretch.from, stretch.to], stretch.route);
+  const from = findTown(stretch.from, route.id);
+  const to = findTown(stretch.to, route.id);
+  if (!from || !to) throw new Error(`"${stretch.from}" → "${stretch.to}" is not a stretch of the ${route.name}`);
+  const maxOff = stretch.maxOffKm ?? DEFAULT_MAX_OFF_KM;
+
+  // No trail: fall back to what is in the stage towns on the way
+  if (!getTrail(route.id)) {
+    const towns = townsBetween(from.name, to.name, route.id).map(t => t.name);
+    return items.filter(p => p.town && towns.includes(p.town));
+  }
+
+  const [a, b] = trailPositionsKm(route.id, [from, to])!;
+  const [lo, hi] = a <= b ? [a, b] : [b, a];
+  const hits: Array<T & { alongKm: number; offKm: number }> = [];
+  for (const p of items) {
+    const { km, offKm } = nearestOnTrail(route.id, p);
+    if (offKm <= maxOff && km >= lo - maxOff && km <= hi + maxOff) {
+      hits.push({ ...p, alongKm: Math.max(0, Math.abs(km - a)), offKm });
+    }
+  }
+  return hits.sort((x, y) => x.alongKm - y.alongKm);
+}
+
+/**
+ * Query the bundled places: around a point (`near` + `radiusKm`), along a stretch
+ * of route (`along`) or in a town named by `q`, filtered by kind, albergue type,
+ * price band and season. Results are sorted by distance (or along-track km).
+ */
+export function searchPlaces(query: PlacesQuery): PlaceHit[] {
+  const maxPrice = query.maxPrice ? BUDGET_TIERS.indexOf(query.maxPrice) : Infinity;
+  let places = PLACES.filter(p =>
+    (!query.kind || p.kind === query.kind) &&
+    (!query.type || p.type === query.type) &&
+    (!p.priceBand || BUDGET_TIERS.indexOf(p.priceBand) <= maxPrice) &&
+    (!query.openOn || isOpenOn(p.season, query.openOn)) &&
+    servesDiets(p, query.diets)
+  );
+
+  // A town in `q` is where to look unless a point or stretch is given; otherwise `q` is text
+  const town = query.q && !query.near && !query.along ? townIn(query.q) : undefined;
+  const near: Point | undefined = query.near
+    ? { lon: query.near[0], lat: query.near[1] }
+    : town ? { lat: town.lat, lon: town.lon } : undefined;
+  if (query.q && !town) {
+    const q = normalizeTownName(query.q);
+    places = places.filter(p => normalizeTownName(`${p.name} ${p.town}`).includes(q));
+  }
+
+  let hits: PlaceHit[];
+  if (query.along) {
+    hits = alongStretch(places, query.along);
+  } else if (near) {
+    const radius = query.radiusKm ?? DEFAULT_RADIUS_KM;
+    hits = places
+      .map(p => ({ ...p, distanceKm: haversineKm(near, p) }))
+      .filter(p => p.distanceKm <= radius)
+      .sort((x, y) => x.distanceKm - y.distanceKm);
+  } else {
+    hits = places;
+  }
+  return hits.slice(0, query.limit ?? DEFAULT_LIMIT);
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const month = (md: string) => MONTHS[Number(md.slice(0, 2)) - 1];
+
+const FOOD_LABELS = { cafe: "Café", restaurant: "Restaurant", grocery: "Grocery" } as const;
+
+/** "Municipal albergue · 110 beds · $ · open Apr–Oct · 0.4 km away" */
+export function placeSubtitle(hit: PlaceHit): string {
+  const what = hit.kind === "albergue"
+    ? (hit.type ? `${LABELS.albergueKinds[hit.type]} albergue` : "Albergue")
+    : FOOD_LABELS[hit.kind];
+  const where = hit.alongKm !== undefined
+    ? `km ${formatDistance(hit.alongKm)}${hit.offKm && hit.offKm >= 0.1 ? ` (${formatDistanceWithUnit(hit.offKm)} off trail)` : ""}`
+    : hit.distanceKm !== undefined ? `${formatDistanceWithUnit(hit.distanceKm)} away` : "";
+  return [
+    what,
+    hit.beds ? `${hit.beds} beds` : "",
+    hit.priceBand ?? "",
+    hit.kind === "albergue" ? (hit.season ? `open ${month(hit.season.from)}–${month(hit.season.to)}` : "open all year") : "",
+    hit.diets?.length ? hit.diets.map(d => LABELS.dietary[d].toLowerCase()).join("/") : "",
+    where,
+  ].filter(Boolean).join(" · ");
+}
+
+/** Map marker for a search result */
+export function placeMarker(hit: PlaceHit) {
+  return { lat: hit.lat, lon: hit.lon, title: `${hit.name}, ${hit.town}`, subtitle: placeSubtitle(hit) };
+}
+
+/** Everything listed in a stage town (canonical or alias name) */
+export function placesIn(town: string): Place[] {
+  const name = findTown(town)?.name ?? town;
+  return PLACES.filter(p => p.town === name);
+}
+
+export function placeById(id: string): Place | undefined {
+  return PLACES.find(p => p.id === id);
+}
@@ -0,0 +1,31 @@
+// lib/places/services.ts
+import { alongStretch, type Stretch } from "@/lib/places/search";
+import { formatDistance } from "@/lib/utils";
+import type { Service, ServiceHit, ServiceKind } from "@/lib/places/types";
+import data from "@/lib/places/services.json";
+
+const SERVICES = data.services as Service[];
+
+export const SERVICE_LABELS: Record<ServiceKind, string> = {
+  fountain: "Water",
+  pharmacy: "Pharmacy",
+  atm: "ATM",
+  health: "Health centre",
+};
+
+/** Services on the trail between two stage towns, in walking order with km from `from` */
+export function servicesAlong(stretch: Stretch, kinds?: ServiceKind[]): ServiceHit[] {
+  const wanted = kinds?.length ? SERVICES.filter(s => kinds.includes(s.kind)) : SERVICES;
+  return alongStretch(wanted, stretch);
+}
+
+/** Map point for a service: "Pharmacy · km 14.2 from Palas de Rei" */
+export function serviceMarker(hit: ServiceHit, from: string) {
+  return {
+    lat: hit.lat,
+    lon: hit.lon,
+    kind: hit.kind,
+    title: hit.name,
+    subtitle: `${SERVICE_LABELS[hit.kind]}${hit.alongKm !== undefined ? ` · km ${formatDistance(hit.alongKm)} from ${from}` : ""}`,
+  };
+}
@@ -0,0 +1,56 @@
+// lib/places/types.ts
+import type { AlbergueKind, BudgetTier, DietaryOption } from "@/lib/preferences";
+import type { RouteId } from "@/lib/stages/types";
+
+export const PLACE_KINDS = ["albergue", "cafe", "restaurant", "grocery"] as const;
+export type PlaceKind = typeof PLACE_KINDS[number];
+
+/** Month-day window ("MM-DD") a place is open; may wrap over New Year. Absent = all year */
+export type Season = { from: string; to: string };
+
+export type Place = {
+  id: string;
+  kind: PlaceKind;
+  name: string;
+  town: string;            // stage town it belongs to (canonical name)
+  route: RouteId;
+  type?: AlbergueKind;     // albergues only
+  beds?: number;
+  priceBand?: BudgetTier;
+  season?: Season;
+  diets?: Exclude<DietaryOption, "none">[]; // food places: diets they cater for
+  lat: number;
+  lon: number;
+};
+
+/** A search result: the place plus how far it is from the query */
+export type PlaceHit = Place & {
+  distanceKm?: number;     // straight line from `near`
+  alongKm?: number;        // along-track km from the start of an along-route query
+  offKm?: number;          // detour from the trail for along-route queries
+};
+
+export const SERVICE_KINDS = ["fountain", "pharmacy", "atm", "health"] as const;
+export type ServiceKind = typeof SERVICE_KINDS[number];
+
+/** A pilgrim service point: water, pharmacy, cash machine, health centre */
+export type Service = {
+  id: string;
+  kind: ServiceKind;
+  name: string;
+  town: string;
+  route: RouteId;
+  lat: number;
+  lon: number;
+};
+
+export type ServiceHit = Service & { alongKm?: number; offKm?: number };
+
+/** A suggested food stop on one day */
+export type FoodStop = {
+  meal: "lunch" | "picnic" | "resupply"; // picnic: buy lunch before setting off
+  placeName: string;
+  town: string;
+  km: number;              // along the day's walk from its start
+  diets?: Exclude<DietaryOption, "none">[];
+};
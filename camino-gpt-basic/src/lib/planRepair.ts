@@ -0,0 +1,167 @@
+// lib/planRepair.ts
+import { ToolName, type PlanStepT } from "@/lib/schemas";
+import { BUDGET_TIERS, type BudgetTier } from "@/lib/preferences";
+
+/**
+ * Deterministic fixes for the ways model output usually drifts from the Plan
+ * schema, applied before validation so a trivial slip doesn't cost a model
+ * round trip. Each fix is described in `fixes` for the plan record.
+ */
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** "map_focus", "Map.Focus", "mapFocus" → "mapfocus" */
+const compact = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+type Tool = PlanStepT["tool"];
+
+/** Names models reach for instead of the canonical ones (compared compacted) */
+const TOOL_ALIASES: Record<string, Tool> = {
+  focus: "map.focus",
+  mapcenter: "map.focus",
+  flyto: "map.focus",
+  route: "map.drawRoute",
+  maproute: "map.drawRoute",
+  planroute: "map.drawRoute",
+  routeplan: "map.drawRoute",
+  stagessplit: "map.drawRoute",
+  markers: "map.addMarkers",
+  mapmarkers: "map.addMarkers",
+  rag: "rag.search",
+  kbsearch: "rag.search",
+  guidesearch: "rag.search",
+  knowledgesearch: "rag.search",
+  places: "places.search",
+  placesearch: "places.search",
+  poisearch: "places.search",
+  services: "services.along",
+  elevation: "elevation.profile",
+  gpx: "export.gpx",
+  exportgpx: "export.gpx",
+  ics: "export.ics",
+  calendar: "export.ics",
+  exportcalendar: "export.ics",
+  planedit: "itinerary.edit",
+  editplan: "itinerary.edit",
+  itineraryupdate: "itinerary.edit",
+  updateitinerary: "itinerary.edit",
+  lodgingreserve: "lodging.hold",
+  lodgingbook: "lodging.confirm",
+  bookbeds: "lodging.confirm",
+};
+
+const TOOL_LOOKUP: Map<string, Tool> = (() => {
+  const lookup = new Map<string, Tool>(Object.entries(TOOL_ALIASES));
+  const suffixes = new Map<string, Tool[]>();
+  for (const tool of ToolName.options) {
+    const suffix = compact(tool.split(".")[1]);
+    suffixes.set(suffix, [...(suffixes.get(suffix) ?? []), tool]);
+  }
+  // "drawRoute", "hold"… alone, unless the suffix is shared (rag.search / places.search)
+  for (const [suffix, tools] of suffixes) if (tools.length === 1 && !lookup.has(suffix)) lookup.set(suffix, tools[0]);
+  for (const tool of ToolName.options) lookup.set(compact(tool), tool);
+  return lookup;
+})();
+
+/** The canonical tool a name stands for, or undefined */
+export function canonicalTool(name: string): Tool | undefined {
+  return TOOL_LOOKUP.get(compact(name));
+}
+
+const BUDGET_WORDS: Record<string, BudgetTier> = {
+  low: "$", cheap: "$", budget: "$", basic: "$",
+  medium: "$$", moderate: "$$", mid: "$$", midrange: "$$", standard: "$$",
+  high: "$$$", luxury: "$$$", comfort: "$$$", premium: "$$$",
+};
+
+function budgetTier(v: unknown): BudgetTier | undefined {
+  if (typeof v !== "string") return undefined;
+  const s = v.trim().replace(/[€£]/g, "$");
+  if ((BUDGET_TIERS as readonly string[]).includes(s)) return s as BudgetTier;
+  return BUDGET_WORDS[compact(s)];
+}
+
+/** Pull the JSON object out of fenced or chatty output */
+export function extractJson(raw: string): { value: unknown; fixes: string[] } {
+  try {
+    return { value: JSON.parse(raw), fixes: [] };
+  } catch {
+    const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1];
+    const braces = raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1);
+    for (const candidate of [fenced, braces]) {
+      if (!candidate) continue;
+      try {
+        return { value: JSON.parse(candidate), fixes: ["extracted the JSON object from surrounding text"] };
+      } catch { /* try the next candidate */ }
+    }
+    throw new Error("Planner returned non-JSON output");
+  }
+}
+
+/** Apply the deterministic fixes; anything it can't fix is left for validation to report */
+export function repairPlan(value: unknown): { value: unknown; fixes: string[] } {
+  const fixes: string[] = [];
+
+  // {"plan": {...}} and bare step arrays
+  let plan = value;
+  if (isObj(plan) && !("steps" in plan)) {
+    const key = Object.keys(plan).find(k => compact(k) === "plan" && isObj((plan as Obj)[k]));
+    if (key) {
+      plan = (plan as Obj)[key];
+      fixes.push(`unwrapped {"${key}": …}`);
+    }
+  }
+  if (Array.isArray(plan)) {
+    plan = { steps: plan };
+    fixes.push("wrapped a bare step array in {steps}");
+  }
+  if (!isObj(plan)) return { value: plan, fixes };
+  const out: Obj = { ...plan };
+
+  if (Array.isArray(out.steps)) {
+    out.steps = out.steps.map((step, i) => {
+      if (!isObj(step)) return step;
+      const s: Obj = { ...step };
+      if (typeof s.tool === "string" && !(ToolName.options as readonly string[]).includes(s.tool)) {
+        const tool = canonicalTool(s.tool);
+        if (tool) {
+          fixes.push(`step ${i + 1}: tool "${s.tool}" → "${tool}"`);
+          s.tool = tool;
+        }
+      }
+      if (typeof s.id !== "string" || !s.id) {
+        s.id = `s${i + 1}`;
+        fixes.push(`step ${i + 1}: added id`);
+      }
+      if (s.args === undefined || s.args === null) {
+        s.args = {};
+        fixes.push(`step ${i + 1}: added empty args`);
+      }
+      return s;
+    });
+  }
+
+  // budget: "$" | "$$" | "$$$" only; {tier: "$$"}, "moderate" and EUR amounts are common
+  if (out.budget !== undefined && budgetTier(out.budget) !== out.budget) {
+    const b = out.budget;
+    const tier = budgetTier(b) ?? (isObj(b) ? Object.values(b).map(budgetTier).find(Boolean) : undefined);
+    const amount = isObj(b) ? Number(b.amount ?? b.total ?? b.totalEur) : typeof b === "number" ? b : NaN;
+    const currency = isObj(b) && typeof b.currency === "string" ? b.currency.toUpperCase() : "EUR";
+    if (tier) {
+      out.budget = tier;
+      fixes.push(`budget ${JSON.stringify(b)} → "${tier}"`);
+    } else {
+      delete out.budget;
+      const draw = Array.isArray(out.steps) ? out.steps.find(s => isObj(s) && s.tool === "map.drawRoute") as Obj | undefined : undefined;
+      if (amount > 0 && currency === "EUR" && draw && isObj(draw.args) && draw.args.targetTotalEur === undefined) {
+        draw.args = { ...draw.args, targetTotalEur: amount };
+        fixes.push(`budget ${JSON.stringify(b)} → map.drawRoute targetTotalEur`);
+      } else {
+        fixes.push(`dropped budget ${JSON.stringify(b)}`);
+      }
+    }
+  }
+
+  return { value: out, fixes };
+}
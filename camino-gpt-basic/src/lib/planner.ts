@@ -1,112 +1,80 @@
 // lib/planner.ts
-import OpenAI from "openai";
 import { PlanSchema, type Plan } from "@/lib/schemas";
 import type { CaminoPreferences } from "@/lib/preferences";
+import { ROUTE_LIST } from "@/lib/stages/registry";
+import { FLAT_KMH, CLIMB_M_PER_HOUR, MIN_WALK_MINUTES, MAX_WALK_MINUTES } from "@/lib/effort";
+import type { PlannerProvider } from "@/lib/llm/types";
+import type { Itinerary } from "@/lib/leg";
+import { extractJson, repairPlan } from "@/lib/planRepair";
 
-/** ─────────────────────────────────────────────────────────────────────────────
- *  Strict JSON schema the model must follow (broad args to avoid over-constraining).
- *  This matches your Plan shape and keeps "args" open; PlanSchema will still validate.
- *  ──────────────────────────────────────────────────────────────────────────── */
-const PLAN_JSON_SCHEMA = {
-  type: "object",
-  additionalProperties: false,
-  required: ["steps"],
-  properties: {
-    steps: {
-      type: "array",
-      minItems: 1,
-      items: {
-        type: "object",
-        additionalProperties: false,
-        required: ["id", "tool", "args"],
-        properties: {
-          id: { type: "string", minLength: 1 },
-          tool: {
-            type: "string",
-            enum: [
-              "map.focus",
-              "map.drawRoute",
-              "map.addMarkers",
-              "rag.search",
-              "places.search",
-              "elevation.profile",
-              "export.gpx",
-            ],
-          },
-          args: { type: "object", additionalProperties: false }, // keep open; PlanSchema will enforce details
-          why: { type: "string" },
-          pauseForUser: { type: "boolean" },
-        },
-      },
-    },
-    specialist: {
-      type: "string",
-      enum: ["navigator", "concierge", "safety", "logistics"],
-    },
-    budget: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        maxSteps: { type: "number" },
-        maxTokens: { type: "number" },
-      },
-    },
-  },
-} as const;
-
-/** Comprehensive planner instructions for multi-day Camino route generation */
+/** Planner instructions: extract intent only; the stage splitter builds the days */
 const SYSTEM = [
-  "You are the planner for a Camino map+chat agent. Do NOT hardcode a fixed list of towns. Build stages dynamically from the user's request.",
+  "You are the planner for a Camino map+chat agent. Your job is to extract the user's intent and pick tools.",
+  "Do NOT split the route into days and do NOT compute distances: the server's stage splitter does that from your intent.",
   "",
   "GOALS:",
-  "- Start/end can vary (default Sarria → Santiago if unspecified)",
-  "- Create MULTI-DAY stages unless the user explicitly asks for a single day", 
-  "- Respect user intent if they specify: number of days (N), target km per day, or must-visit towns",
-  "- IMPORTANT: N days = N-1 stages/legs (e.g. 5 days = 4 walking stages between 5 towns)",
+  "- Start/end can vary (default Sarria → Santiago on the Camino Francés if unspecified)",
+  "- Pick the Camino the user is asking about; routes available:",
+  ...ROUTE_LIST.map(r => `  - ${r.id}: ${r.name} (${r.towns[0].name} → ${r.towns[r.towns.length - 1].name})`),
+  "- Create MULTI-DAY stages unless the user explicitly asks for a single day",
+  "- Capture what the user specifies: number of walking days, target km per day, must-visit towns",
   "",
   "TOOL USAGE (order and rules):",
   "1) map.focus near the start location",
-  "2) map.drawRoute with start/end strings and stages array:",
-  "   - If user gives N days → split into N-1 distance-balanced stages (~115km Sarria-Santiago ÷ (N-1))",
-  "   - If user gives targetStageKm → chunk by distance with ±20% tolerance",
-  "   - If user gives anchor towns → use anchors as breakpoints, fill gaps by distance",
-  "3) map.addMarkers with markers array (lat/lon required), one per overnight stop",
+  "2) map.drawRoute with intent only:",
+  '   {"route":"frances","start":"TownA","end":"TownB","days":N,"targetStageKm":K,"mustStop":["TownC"],',
+  '    "minKm":A,"maxKm":B,"avoidEnding":["TownD"],"startDate":"YYYY-MM-DD","restIn":["TownC"],"splitDays":[D],"targetTotalEur":E}',
+  "   - route = one of the route ids above (omit to infer from the towns)",
+  "   - days = number of walking days the user asked for (omit if not given)",
+  "   - targetStageKm = km per day the user asked for (omit if not given)",
+  "   - mustStop = towns the user wants to sleep in or pass through (omit if none)",
+  "   - startDate = day 1 as an ISO date if the user gave one (omit otherwise)",
+  "   - restIn = towns to spend an extra rest day in; splitDays = walking days the user wants split in two",
+  "   - minKm / maxKm = the user's hard daily limits; avoidEnding = towns the user does not want to sleep in",
+  "   - targetTotalEur = the user's total trip budget in EUR (omit if none); the server fits private rooms vs. albergue beds to it",
+  "   - Pass the user's constraints as given even if they look impossible: the server's solver explains conflicts",
+  "3) Markers for overnight stops are added by the server; only use map.addMarkers for other places",
+  "4) places.search for albergues, cafés, restaurants or groceries (results are drawn as their own markers):",
+  '   {"q":"Melide","kind":"albergue"} in a town, {"near":[lon,lat],"radiusKm":R} around a point, or',
+  '   {"along":{"route":"frances","from":"TownA","to":"TownB"},"kind":"cafe"} on a stretch of route',
+  '   - optional filters: "type":"municipal"|"private"|"parochial", "maxPrice":"$"|"$$"|"$$$", "openOn":"YYYY-MM-DD",',
+  '     "diets":["vegetarian"|"vegan"|"gluten-free"] (the server already adds lunch/resupply stops for the user\'s diet to each day)',
+  '5) services.along {"route":"frances","from":"TownA","to":"TownB","kinds":["pharmacy","atm"]} for water, pharmacies,',
+  '   ATMs or health centres between two towns ("kinds" from: fountain, pharmacy, atm, health; omit for all)',
+  "6) Beds, only when the user asks to book: lodging.hold then lodging.confirm (after map.drawRoute if planning too)",
+  '   lodging.hold {"days":[1,2],"guests":N} holds a bed each night (omit days for every night);',
+  '   lodging.confirm {} books the held beds and MUST have "pauseForUser":true; lodging.cancel {"days":[D]} releases beds',
+  '7) rag.search {"query":"what is the credencial?"} for questions about the Camino itself (credencial, Compostela,',
+  "   albergue rules, etiquette, packing, health, stage descriptions); use it alone when the user only asks a question",
+  '8) Files of the current plan, only when asked: export.gpx {} for a GPS track, export.ics {} for calendar events',
+  '   (export.ics {"startDate":"YYYY-MM-DD"} when the plan has no dates yet); use them alone to export an existing plan',
+  '9) itinerary.edit {"edits":[...]} to change the CURRENT plan (the payload\'s "current" days) instead of re-planning it:',
+  '   {"op":"moveStop","from":"Melide","to":"Boente"} sleep somewhere else; {"op":"addRest","town":"Arzúa"};',
+  '   {"op":"removeRest","town":"Arzúa"}; {"op":"mergeDays","day":2} (with the next day); {"op":"splitDay","day":3};',
+  '   {"op":"changeStart","town":"Ferrol"} or {"op":"changeStart","date":"YYYY-MM-DD"}',
+  "   - Use it for follow-ups like 'swap Melide for Boente' or 'add a rest day in Arzúa' when a current plan exists;",
+  "     use map.drawRoute only for a new trip or a different end",
   "",
-  "STAGE GENERATION:",
-  "- Work from candidate towns along the Camino Frances route in Galicia, Spain",
-  "- Each stage must have proper from/to town names: {'from': 'TownA', 'to': 'TownB', 'distanceKm': XX.X}",
-  "- Use real town names: 'Sarria', 'Portomarín', 'Palas de Rei', 'Melide', 'Arzúa', 'Santiago'", 
-  "- NEVER use generic stage names like 'stage': '1' or 'stage': '2' - always use town names",
-  "- Distances should be rounded to one decimal place (e.g., 22.3 km, 22.0 km becomes 22 km)",
+  "TOWN NAMES:",
+  "- Use real town names: 'Sarria', 'Portomarín', 'Palas de Rei', 'Melide', 'Arzúa', 'Santiago'",
+  "- NEVER invent generic names like 'Stage 1' - always use town names",
   "",
   "QUALITY CONSTRAINTS:",
-  "- Avoid extremely short (<10 km) or long (>40 km) stages unless user requests it",
-  "- All towns must be in Galicia, Spain (lat ~42.5-43.5, lon ~-9.0 to -6.5)",
-  "- Preserve must-visit towns as stage boundaries when specified",
+  `- Judge days by walking time, not km: ${FLAT_KMH} km/h on the flat + 1 h per ${CLIMB_M_PER_HOUR} m of climb (Naismith)`,
+  `- Avoid days under ${MIN_WALK_MINUTES / 60} h or over ${MAX_WALK_MINUTES / 60} h of walking unless the user asks (pick days accordingly; mountain stages like O Cebreiro or the Pyrenees need more days)`,
+  "- The server grades each day (easy / moderate / hard / very hard) and suggests a start time",
+  '- Set the plan\'s "budget" ("$" | "$$" | "$$$") only when the user states a spending level; the server estimates costs per day',
+  "- The server also ranks overnight towns by the user's accommodation preferences; do not pick towns for that yourself",
+  "- All towns (start, end, mustStop) must be on the chosen route",
+  "- Preserve must-visit towns by listing them in mustStop",
   "",
-  "EXAMPLE for '5-day Sarria to Santiago':",
+  "EXAMPLE for '5-day Sarria to Santiago, I want to sleep in Melide':",
   '{"steps":[',
   '  {"id":"s1","tool":"map.focus","args":{"location":"Sarria","zoom":12}},',
   '  {"id":"s2","tool":"map.drawRoute","args":{',
-  '    "start":"Sarria","end":"Santiago",',
-  '    "stages":[',
-  '      {"from":"Sarria","to":"Portomarín","distanceKm":22.2},',
-  '      {"from":"Portomarín","to":"Palas de Rei","distanceKm":24.8},', 
-  '      {"from":"Palas de Rei","to":"Melide","distanceKm":15.2},',
-  '      {"from":"Melide","to":"Arzúa","distanceKm":14.1},',
-  '      {"from":"Arzúa","to":"Santiago","distanceKm":39.2}',
-  '    ]',
-  '  }},',
-  '  {"id":"s3","tool":"map.addMarkers","args":{',
-  '    "markers":[',
-  '      {"lat":42.8075,"lon":-7.6153,"title":"Portomarín","subtitle":"Day 1 · 22.2 km"},',
-  '      {"lat":42.8741,"lon":-7.8687,"title":"Palas de Rei","subtitle":"Day 2 · 24.8 km"},',
-  '      {"lat":42.9142,"lon":-8.0129,"title":"Melide","subtitle":"Day 3 · 15.2 km"},',
-  '      {"lat":42.9290,"lon":-8.1585,"title":"Arzúa","subtitle":"Day 4 · 14.1 km"},',
-  '      {"lat":42.8806,"lon":-8.5449,"title":"Santiago","subtitle":"Day 5 · 39.2 km"}',
-  '    ]',
+  '    "route":"frances","start":"Sarria","end":"Santiago","days":5,"mustStop":["Melide"]',
   '  }}',
-  '],"budget":"$"}',
+  ']}',
   "",
   "Output ONLY valid JSON matching this structure. No prose, no markdown, no explanations.",
 ].join("\n");
@@ -145,73 +113,117 @@ function normalizePauses(plan: Plan, mode: "first" | "none" | "keep" = "first"):
 
 /** Small helper: keep the user input tiny for latency */
 type ChatMsg = { role: "user" | "assistant"; content: string };
-function compactPayload(messages: ChatMsg[], preferences?: CaminoPreferences): string {
-  const lastUser = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+const lastUserText = (messages: ChatMsg[]) => [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+
+/** The plan on screen, one short line per day ("3 2026-05-03 Palas de Rei → Melide 14.6 km") */
+function currentDays(itinerary: Itinerary): string[] {
+  return itinerary.map((l) =>
+    [l.day, l.date, l.rest ? `rest in ${l.to}` : `${l.from} → ${l.to}`, l.km ? `${l.km} km` : "", l.reservation ? `bed ${l.reservation.status}` : ""]
+      .filter(Boolean).join(" ")
+  );
+}
+
+function compactPayload(messages: ChatMsg[], preferences?: CaminoPreferences, itinerary?: Itinerary) {
+  const lastUser = lastUserText(messages).slice(0, 1500);
   // Include the literal word "json" so Responses honors json_object mode.
-  const payload = { mode: "json", ask: lastUser, preferences: preferences ?? {} };
-  return JSON.stringify(payload).slice(0, 3000);
+  return {
+    mode: "json",
+    ask: lastUser,
+    preferences: preferences ?? {},
+    ...(itinerary?.length ? { current: currentDays(itinerary) } : {}),
+  };
 }
 
-/** Main entry: one fast, predictable call using Responses + strict schema */
+/** Model calls per plan: the first plus this many repairs, all within PLANNER_BUDGET_MS */
+const MAX_REPAIRS = 2;
+const PLANNER_BUDGET_MS = 19_500; // slightly under route.ts's 20s guard
+const MIN_REPAIR_MS = 3_000;      // not worth another call with less time than this left
+
+/** One model call while building a plan, kept on the PlanRecord */
+export type PlanAttempt = {
+  attempt: number;       // 0 = first call, then repairs
+  ms: number;
+  fixes: string[];       // deterministic fixes applied to the output
+  error?: string;        // why the output was rejected; absent on the attempt that passed
+};
+
+/** Parse, fix and validate one model output */
+function checkPlan(raw: string): { plan?: Plan; fixes: string[]; error?: string } {
+  if (!raw) return { fixes: [], error: "Planner returned empty output" };
+  let extracted: { value: unknown; fixes: string[] };
+  try {
+    extracted = extractJson(raw);
+  } catch (e) {
+    return { fixes: [], error: e instanceof Error ? e.message : String(e) };
+  }
+  const repaired = repairPlan(extracted.value);
+  const fixes = [...extracted.fixes, ...repaired.fixes];
+  const ok = PlanSchema.safeParse(repaired.value);
+  if (ok.success) return { plan: ok.data, fixes };
+  const issues = ok.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+  return { fixes, error: issues.join("; ") };
+}
+
+/** The follow-up message for a rejected output: the first payload plus what it said and what was wrong */
+function repairPayload(first: ReturnType<typeof compactPayload>, raw: string, error: string): string {
+  const payload = {
+    ...first,
+    repair: "Your previous output failed validation. Return the corrected plan JSON only.",
+    previousOutput: raw.slice(0, 2000),
+    issues: error.slice(0, 1000),
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Main entry: one fast call to the configured model backend, then up to
+ * MAX_REPAIRS calls that show the model its invalid output and the zod
+ * issues, while the time budget allows. Transport errors are not retried.
+ */
 export async function buildPlan(opts: {
-  openai: OpenAI;
-  model: string;
+  provider: PlannerProvider;
   messages: ChatMsg[];
   preferences?: CaminoPreferences;
+  /** The itinerary the client is showing, so follow-ups can edit it */
+  itinerary?: Itinerary;
   /** Optional: pass AbortSignal from route.ts so upstream request is truly cancelled on timeout */
   signal?: AbortSignal;
-}) {
-  const { openai, model, messages, preferences, signal } = opts;
-
-  // Per-call client options so this request won't auto-retry or exceed our server guard
-  const client = openai.withOptions({
-    maxRetries: 0,          // do not stretch the 12s server budget
-    timeout: 19_500,        // slightly under the 20s guard
-    // Note: signal not supported in withOptions, would need to pass to individual calls
-  });
-
-  const res = await client.responses.create({
-    model,
-    instructions: `${SYSTEM}\n\n${DEV}\n\n${OUTPUT_EXAMPLE}`,
-    input: [{ role: "user", content: compactPayload(messages, preferences) }],
-    temperature: 0.2,
-    max_output_tokens: 2000, // increased to handle full JSON responses
-    text: { format: { type: "json_object" } }, // ← only enforce valid JSON, not full schema
-
-    // text: {
-    //   format: {
-    //   type: "json_schema",
-    //   name: "Plan",
-    //   schema: PLAN_JSON_SCHEMA,
-    //   strict: false,
-    //   }
-    // },
-  });
-
-  // Parse once (no repair loop needed with strict schema)
-  const raw = (res as any).output_text as string;
-  if (!raw || typeof raw !== "string") {
-    throw new Error("Planner returned empty output");
-  }
+}): Promise<{ plan: Plan; attempts: PlanAttempt[] }> {
+  const { provider, messages, preferences, itinerary, signal } = opts;
+  const deadline = Date.now() + PLANNER_BUDGET_MS;
+  const attempts: PlanAttempt[] = [];
+  const first = compactPayload(messages, preferences, itinerary);
+  let input = JSON.stringify(first);
 
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(raw);
-  } catch (e) {
-    console.log('failed json parse: ', raw)
-    throw new Error("Planner returned non-JSON output");
-  }
+  for (let attempt = 0; ; attempt++) {
+    const started = Date.now();
+    const raw = await provider.complete({
+      instructions: `${SYSTEM}\n\n${DEV}\n\n${OUTPUT_EXAMPLE}`,
+      input,
+      key: lastUserText(messages),
+      json: true,            // only enforce valid JSON; checkPlan repairs and validates the shape
+      temperature: 0.2,
+      maxOutputTokens: 2000, // increased to handle full JSON responses
+      timeoutMs: deadline - started,
+      signal,
+    });
+    console.log(`[planner] attempt ${attempt}: ${raw.length} chars in ${Date.now() - started}ms`);
 
-  console.log(`[planner] raw output: ${raw}`);
-//   console.log(`[planner] parsed : ${parsed}`);
-  const ok = PlanSchema.safeParse(parsed);
-  if (!ok.success) {
-    // Even with strict schema, keep a clear error for route.ts to handle gracefully
-    throw new Error(`Planner JSON failed validation: ${ok.error.toString()}`);
-  }
+    const checked = checkPlan(raw);
+    attempts.push({ attempt, ms: Date.now() - started, fixes: checked.fixes, error: checked.error });
+    if (checked.fixes.length) console.log(`[planner] fixed: ${checked.fixes.join("; ")}`);
+    if (checked.plan) {
+      // Keep your existing pause policy
+      return { plan: normalizePauses(checked.plan, "first"), attempts };
+    }
 
-  // Keep your existing pause policy
-  return normalizePauses(ok.data, "first");
+    // Keep a clear error for route.ts to handle gracefully
+    if (attempt >= MAX_REPAIRS || deadline - Date.now() < MIN_REPAIR_MS || signal?.aborted) {
+      throw new Error(`Planner JSON failed validation after ${attempts.length} attempt(s): ${checked.error}`);
+    }
+    console.warn(`[planner] attempt ${attempt} rejected, asking for a repair: ${checked.error}`);
+    input = repairPayload(first, raw, checked.error ?? "invalid plan");
+  }
 }
 
 /** Export prompts for tests/debugging if desired */
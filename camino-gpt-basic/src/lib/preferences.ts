@@ -9,6 +9,7 @@ export const UNIT_SYSTEMS = ["km", "miles"] as const;
 export const ROUTE_STYLES = ["scenic", "balanced", "fast"] as const;
 export const BUDGET_TIERS = ["$", "$$", "$$$"] as const;
 export const ALBERGUE_KINDS = ["municipal", "private", "parochial"] as const;
+export const CURRENCIES = ["EUR", "USD", "GBP"] as const;
 export const DIETARY_OPTIONS = ["none", "vegetarian", "vegan", "gluten-free"] as const;
 export const LANGUAGE_OPTIONS = [
   "english",
@@ -28,6 +29,7 @@ export type UnitSystem = typeof UNIT_SYSTEMS[number];
 export type RouteStyle = typeof ROUTE_STYLES[number];
 export type BudgetTier = typeof BUDGET_TIERS[number];
 export type AlbergueKind = typeof ALBERGUE_KINDS[number];
+export type Currency = typeof CURRENCIES[number];
 export type DietaryOption = typeof DIETARY_OPTIONS[number];
 export type LanguageOption = typeof LANGUAGE_OPTIONS[number];
 
@@ -38,7 +40,10 @@ export interface CaminoPreferences {
   unitSystem: UnitSystem;
   routeStyle: RouteStyle;
   targetStageKm: number;
+  startDate: string;               // ISO date of day 1, "" = undated
   budget: BudgetTier;
+  currency: Currency;              // cost estimates are shown in this currency
+  luggageTransfer: boolean;        // bag sent ahead each walking day
   albergueKinds: AlbergueKind[];
   quietDormsPreferred: boolean;
   privateRoomPreferred: boolean;
@@ -58,6 +63,7 @@ export const LABELS = {
     fast: "Fast",
   } as Record<RouteStyle, string>,
   budget: { $: "$", $$: "$$", $$$: "$$$" } as Record<BudgetTier, string>,
+  currency: { EUR: "€ Euro", USD: "$ US dollar", GBP: "£ Pound" } as Record<Currency, string>,
   albergueKinds: {
     municipal: "Municipal",
     private: "Private",
@@ -88,7 +94,10 @@ export const DEFAULT_PREFERENCES: CaminoPreferences = {
   unitSystem: "km",
   routeStyle: "balanced",
   targetStageKm: 22,
+  startDate: "",
   budget: "$$",
+  currency: "EUR",
+  luggageTransfer: false,
   albergueKinds: ["municipal", "private", "parochial"],
   quietDormsPreferred: true,
   privateRoomPreferred: false,
@@ -122,7 +131,9 @@ export function preferencesToInstruction(p: CaminoPreferences): string {
     `Use ${p.unitSystem}.`,
     `Favor ${p.routeStyle} routing.`,
     `Aim for ~${p.targetStageKm} ${p.unitSystem === "miles" ? "miles" : "km"} stages.`,
+    p.startDate ? `Starting ${p.startDate}.` : "",
     `Budget ${p.budget}.`,
+    p.luggageTransfer ? "Luggage transfer each day." : "",
     p.albergueKinds.length ? `Stays: ${p.albergueKinds.join(", ")}.` : "",
     p.quietDormsPreferred ? "Prefer quiet dorms." : "",
     p.privateRoomPreferred ? "Prefer private rooms." : "",
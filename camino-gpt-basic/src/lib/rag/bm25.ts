@@ -0,0 +1,45 @@
+// lib/rag/bm25.ts
+import { tokenize } from "@/lib/rag/text";
+import type { Chunk, IndexedChunk, RagIndex } from "@/lib/rag/types";
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** Section titles count double: "Where to get a credencial" should beat a passing mention */
+const TITLE_WEIGHT = 2;
+
+/** Bump when tokenizing or the index shape changes so cached indexes are rebuilt */
+export const INDEX_VERSION = 1;
+
+export function buildIndex(chunks: Chunk[], signature: string): RagIndex {
+  const df: Record<string, number> = {};
+  const indexed: IndexedChunk[] = chunks.map(c => {
+    const tf: Record<string, number> = {};
+    const titleTokens = tokenize(c.title);
+    const tokens = tokenize(c.text);
+    for (const t of titleTokens) tf[t] = (tf[t] ?? 0) + TITLE_WEIGHT;
+    for (const t of tokens) tf[t] = (tf[t] ?? 0) + 1;
+    for (const t of Object.keys(tf)) df[t] = (df[t] ?? 0) + 1;
+    return { ...c, tf, len: titleTokens.length * TITLE_WEIGHT + tokens.length };
+  });
+  const avgLen = indexed.reduce((n, c) => n + c.len, 0) / Math.max(1, indexed.length);
+  return { version: INDEX_VERSION, signature, chunks: indexed, df, avgLen };
+}
+
+/** BM25 score of every chunk for the query (same order as `index.chunks`) */
+export function bm25Scores(index: RagIndex, query: string): number[] {
+  const terms = [...new Set(tokenize(query))];
+  const n = index.chunks.length;
+  return index.chunks.map(c => {
+    let score = 0;
+    for (const t of terms) {
+      const f = c.tf[t];
+      if (!f) continue;
+      const df = index.df[t] ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += idf * (f * (K1 + 1)) / (f + K1 * (1 - B + B * c.len / index.avgLen));
+    }
+    return score;
+  });
+}
@@ -0,0 +1,63 @@
+// lib/rag/embed.ts
+import { tokenize } from "@/lib/rag/text";
+
+/** A local embedding model for hybrid ranking; vectors are compared by cosine similarity */
+export interface Embedder {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const HASH_DIMS = 256;
+
+/**
+ * Dependency-free baseline: hashed character trigrams of each token, which
+ * tolerates misspellings and word forms BM25 misses ("credentials", "stamping").
+ */
+function createHashEmbedder(): Embedder {
+  const hash = (s: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+    return (h >>> 0) % HASH_DIMS;
+  };
+  return {
+    name: "hash",
+    embed: async (texts) =>
+      texts.map(text => {
+        const v = new Array<number>(HASH_DIMS).fill(0);
+        for (const token of tokenize(text)) {
+          const padded = `_${token}_`;
+          for (let i = 0; i + 3 <= padded.length; i++) v[hash(padded.slice(i, i + 3))] += 1;
+        }
+        const norm = Math.hypot(...v) || 1;
+        return v.map(x => x / norm);
+      }),
+  };
+}
+
+/** Known embedders by `RAG_EMBEDDER`; add real models here. Unset = BM25 only */
+const FACTORIES: Record<string, () => Embedder> = {
+  hash: createHashEmbedder,
+};
+
+let embedder: Embedder | null | undefined;
+
+export function getEmbedder(): Embedder | null {
+  if (embedder === undefined) {
+    const name = process.env.RAG_EMBEDDER;
+    if (name && !FACTORIES[name]) {
+      throw new Error(`Unknown RAG_EMBEDDER "${name}" (known: ${Object.keys(FACTORIES).join(", ")})`);
+    }
+    embedder = name ? FACTORIES[name]() : null;
+  }
+  return embedder;
+}
+
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
@@ -0,0 +1,106 @@
+// lib/rag/index.ts
+import fs from "node:fs";
+import path from "node:path";
+import { ingestGuide, listGuideFiles } from "@/lib/rag/ingest";
+import { bm25Scores, buildIndex, INDEX_VERSION } from "@/lib/rag/bm25";
+import { cosine, getEmbedder } from "@/lib/rag/embed";
+import { bestSnippet } from "@/lib/rag/text";
+import type { RagHit, RagIndex } from "@/lib/rag/types";
+
+/** Guide pages to index (see data/guide/README.md) and where the built index is cached */
+const GUIDE_DIR = process.env.GUIDE_DIR || path.join(process.cwd(), "data", "guide");
+const INDEX_PATH = process.env.RAG_INDEX || path.join(process.cwd(), "data", "rag", "index.json");
+
+export const DEFAULT_TOP_K = 5;
+
+/** Reciprocal-rank fusion constant for hybrid (BM25 + embedding) ranking */
+const RRF_K = 60;
+
+/** Passages with no query term must be at least this similar to be returned */
+const MIN_COSINE = 0.3;
+
+let cached: RagIndex | undefined;
+
+const signatureOf = (dir: string) =>
+  listGuideFiles(dir).map(f => `${f.file}:${f.size}:${f.mtimeMs}`).join("|");
+
+function readIndex(file: string): RagIndex | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as RagIndex;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeIndex(file: string, index: RagIndex) {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(index));
+  } catch (e) {
+    // Read-only deploys still work: the index just lives in memory
+    console.warn(`[rag] could not write ${file}: ${String(e)}`);
+  }
+}
+
+/**
+ * The index for the current guide content: the in-memory copy, else the on-disk
+ * one, rebuilt (and written back) when the guide files or the embedder changed.
+ */
+export async function loadIndex(): Promise<RagIndex> {
+  const signature = signatureOf(GUIDE_DIR);
+  const embedder = getEmbedder();
+  const fresh = (i?: RagIndex): i is RagIndex =>
+    !!i && i.version === INDEX_VERSION && i.signature === signature && i.embedder === embedder?.name;
+
+  if (fresh(cached)) return cached;
+  const onDisk = readIndex(INDEX_PATH);
+  if (fresh(onDisk)) return (cached = onDisk);
+
+  const index = buildIndex(ingestGuide(GUIDE_DIR), signature);
+  if (embedder) {
+    index.embedder = embedder.name;
+    index.vectors = await embedder.embed(index.chunks.map(c => `${c.title}\n${c.text}`));
+  }
+  console.log(`[rag] indexed ${index.chunks.length} passages from ${GUIDE_DIR}`);
+  writeIndex(INDEX_PATH, index);
+  return (cached = index);
+}
+
+const rankOf = (scores: number[]) => {
+  const order = scores.map((s, i) => ({ s, i })).sort((a, b) => b.s - a.s);
+  const ranks = new Array<number>(scores.length);
+  order.forEach(({ i }, r) => (ranks[i] = r));
+  return ranks;
+};
+
+/**
+ * Top passages for a question: BM25 over the guide, fused with embedding
+ * similarity by reciprocal rank when an embedder is configured.
+ */
+export async function ragSearch(query: string, topK = DEFAULT_TOP_K): Promise<RagHit[]> {
+  const index = await loadIndex();
+  const bm25 = bm25Scores(index, query);
+
+  let scores = bm25;
+  let dense: number[] | undefined;
+  const embedder = getEmbedder();
+  if (embedder && index.vectors) {
+    const [q] = await embedder.embed([query]);
+    dense = index.vectors.map(v => cosine(q, v));
+    const [rb, rd] = [rankOf(bm25), rankOf(dense)];
+    scores = bm25.map((s, i) => (s > 0 ? 1 / (RRF_K + rb[i]) : 0) + 1 / (RRF_K + rd[i]));
+  }
+
+  return index.chunks
+    .map((c, i) => ({ c, score: scores[i], relevant: bm25[i] > 0 || (dense?.[i] ?? 0) >= MIN_COSINE }))
+    .filter(h => h.relevant)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ c, score }) => ({
+      id: c.id,
+      title: c.title,
+      snippet: bestSnippet(c.text, query),
+      url: c.url,
+      score: Math.round(score * 1000) / 1000,
+    }));
+}
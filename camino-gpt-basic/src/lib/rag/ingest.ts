@@ -0,0 +1,101 @@
+// lib/rag/ingest.ts
+import fs from "node:fs";
+import path from "node:path";
+import { slugify } from "@/lib/utils";
+import type { Chunk } from "@/lib/rag/types";
+
+const EXTENSIONS = [".md", ".html", ".htm"];
+const SKIP = new Set(["readme.md"]);
+
+/** Guide pages (recursively) with their size and mtime, for the index signature */
+export function listGuideFiles(dir: string): Array<{ file: string; size: number; mtimeMs: number }> {
+  if (!fs.existsSync(dir)) return [];
+  return (fs.readdirSync(dir, { recursive: true }) as string[])
+    .map(f => f.split(path.sep).join("/"))
+    .filter(f => EXTENSIONS.includes(path.extname(f).toLowerCase()) && !SKIP.has(path.basename(f).toLowerCase()))
+    .sort()
+    .map(file => {
+      const st = fs.statSync(path.join(dir, file));
+      return { file, size: st.size, mtimeMs: Math.round(st.mtimeMs) };
+    });
+}
+
+type Section = { heading?: string; text: string };
+
+/** Split a page into (heading, text) sections; text before the first heading is kept without one */
+function sections(body: string, headingRe: RegExp): Section[] {
+  const out: Section[] = [];
+  let current: Section = { text: "" };
+  for (const line of body.split("\n")) {
+    const m = line.match(headingRe);
+    if (m) {
+      out.push(current);
+      current = { heading: m[1].trim(), text: "" };
+    } else {
+      current.text += `${line}\n`;
+    }
+  }
+  out.push(current);
+  return out;
+}
+
+const clean = (s: string) => s.replace(/\s+/g, " ").trim();
+
+const decodeEntities = (s: string) =>
+  s.replace(/&nbsp;/g, " ").replace(/&amp;/g, "&").replace(/&lt;/g, "<").replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+
+/** Markdown with optional `title:` / `source:` front matter; one chunk per `##` section */
+export function markdownChunks(file: string, raw: string): Chunk[] {
+  const meta: Record<string, string> = {};
+  let body = raw.replace(/\r\n/g, "\n");
+  const fm = body.match(/^---\n([\s\S]*?)\n---\n/);
+  if (fm) {
+    for (const line of fm[1].split("\n")) {
+      const [key, ...rest] = line.split(":");
+      if (rest.length) meta[key.trim()] = rest.join(":").trim();
+    }
+    body = body.slice(fm[0].length);
+  }
+  const h1 = body.match(/^#\s+(.+)$/m)?.[1];
+  const title = meta.title ?? h1 ?? path.basename(file, path.extname(file));
+  if (h1) body = body.replace(/^#\s+.+$/m, "");
+
+  const strip = (s: string) => clean(s.replace(/\[([^\]]+)\]\([^)]*\)/g, "$1").replace(/[*_`>#]/g, ""));
+  return toChunks(file, title, meta.source, sections(body, /^##\s+(.+)$/).map(s => ({ ...s, text: strip(s.text) })));
+}
+
+/** HTML page: `<title>`, `<link rel="canonical">`, one chunk per `<h2>` section */
+export function htmlChunks(file: string, raw: string): Chunk[] {
+  const title = clean(decodeEntities(raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? path.basename(file, path.extname(file))));
+  const url = raw.match(/<link[^>]+rel=["']canonical["'][^>]*href=["']([^"']+)["']/i)?.[1];
+  const body = (raw.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? raw)
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h1[^>]*>[\s\S]*?<\/h1>/gi, "")
+    .replace(/<h2[^>]*>([\s\S]*?)<\/h2>/gi, (_, h: string) => `\n@@h2 ${h.replace(/<[^>]+>/g, "")}\n`)
+    .replace(/<\/(p|li|div|h[3-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, " ");
+  const parts = sections(decodeEntities(body), /^@@h2 (.+)$/).map(s => ({ ...s, text: clean(s.text) }));
+  return toChunks(file, title, url, parts);
+}
+
+function toChunks(file: string, title: string, url: string | undefined, parts: Section[]): Chunk[] {
+  const page = slugify(file.replace(/\.[^.]+$/, ""));
+  return parts
+    .filter(s => s.text)
+    .map(s => ({
+      id: s.heading ? `${page}#${slugify(s.heading)}` : page,
+      title: s.heading ? `${title} › ${s.heading}` : title,
+      text: s.text,
+      url,
+      file,
+    }));
+}
+
+/** Read every guide page under `dir` into chunks */
+export function ingestGuide(dir: string): Chunk[] {
+  return listGuideFiles(dir).flatMap(({ file }) => {
+    const raw = fs.readFileSync(path.join(dir, file), "utf8");
+    return path.extname(file).toLowerCase() === ".md" ? markdownChunks(file, raw) : htmlChunks(file, raw);
+  });
+}
@@ -0,0 +1,49 @@
+// lib/rag/text.ts
+
+const STOP_WORDS = new Set(
+  ("a an and are as at be but by can do does for from has have how i if in into is it its me my no not of on or " +
+    "so than that the their them then there these they this to too up was we what when where which who why will " +
+    "with you your").split(" ")
+);
+
+/** Crude suffix stripping so "treating"/"treated"/"treats" all meet "treat" */
+function stem(t: string): string {
+  if (t.length > 5 && t.endsWith("ing")) return t.slice(0, -3);
+  if (t.length > 4 && t.endsWith("ed")) return t.slice(0, -2);
+  if (t.length > 3 && t.endsWith("s") && !t.endsWith("ss")) return t.slice(0, -1);
+  return t;
+}
+
+/** Lowercase, accent-free word tokens without stop words, lightly stemmed */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t))
+    .map(stem);
+}
+
+/**
+ * The stretch of `text` (≤ `max` chars, on sentence boundaries) that mentions the
+ * most query terms, so a hit shows the sentence that answers rather than the intro.
+ */
+export function bestSnippet(text: string, query: string, max = 320): string {
+  const terms = new Set(tokenize(query));
+  const sentences = text.match(/[^.!?]+[.!?]+(?:\s|$)|[^.!?]+$/g)?.map(s => s.trim()).filter(Boolean) ?? [text];
+  const hits = sentences.map(s => tokenize(s).filter(t => terms.has(t)).length);
+
+  let best = { from: 0, to: 0, score: -1 };
+  for (let from = 0; from < sentences.length; from++) {
+    let len = 0, score = 0, to = from;
+    while (to < sentences.length && (to === from || len + sentences[to].length + 1 <= max)) {
+      len += sentences[to].length + 1;
+      score += hits[to];
+      to++;
+    }
+    if (score > best.score) best = { from, to, score };
+  }
+  const snippet = sentences.slice(best.from, best.to).join(" ");
+  return snippet.length > max ? `${snippet.slice(0, max - 1).trimEnd()}…` : snippet;
+}
@@ -0,0 +1,35 @@
+// lib/rag/types.ts
+
+/** One searchable passage: a `##` section of a guide page */
+export type Chunk = {
+  id: string;      // "credencial#where-to-get-a-credencial"
+  title: string;   // "The credencial (pilgrim passport) › Where to get a credencial"
+  text: string;
+  url?: string;    // the page's source, cited with answers
+  file: string;    // path relative to the guide directory
+};
+
+/** A chunk with its BM25 term statistics */
+export type IndexedChunk = Chunk & {
+  len: number;                 // tokens in title + text
+  tf: Record<string, number>;  // term → count
+};
+
+/** On-disk index (data/rag/index.json) */
+export type RagIndex = {
+  version: number;
+  signature: string;           // guide files + sizes + mtimes it was built from
+  chunks: IndexedChunk[];
+  df: Record<string, number>;  // term → chunks containing it
+  avgLen: number;
+  embedder?: string;           // name of the embedder the vectors came from
+  vectors?: number[][];        // one per chunk, when an embedder is configured
+};
+
+export type RagHit = {
+  id: string;
+  title: string;
+  snippet: string;
+  url?: string;
+  score: number;
+};
@@ -1,5 +1,11 @@
 // lib/schemas.ts
 import { z } from "zod";
+import { ROUTE_IDS } from "@/lib/stages/types";
+import { DIFFICULTIES } from "@/lib/effort";
+import { PLACE_KINDS, SERVICE_KINDS } from "@/lib/places/types";
+import { ALBERGUE_KINDS, BUDGET_TIERS, DIETARY_OPTIONS } from "@/lib/preferences";
+import { RESERVATION_STATUSES } from "@/lib/booking/types";
+import { BED_KINDS } from "@/lib/cost";
 
 /** ---------- Tool I/O (zod) ---------- */
 export const FocusInput = z.object({
@@ -16,6 +22,7 @@ export const DrawRouteInput = z.object({
     meta: z.object({
         startName: z.string().optional(),
         endName: z.string().optional(),
+        route: z.enum(ROUTE_IDS).optional(),
     }).optional(), // NEW
 });
 
@@ -28,6 +35,7 @@ export const AddMarkersInput = z.object({
             subtitle: z.string().optional(),
         })
     ),
+    layer: z.string().optional(), // separate marker layer (e.g. "places"); default: overnight stops
 });
 
 export const RagSearchInput = z.object({
@@ -40,6 +48,7 @@ export const RagSearchOutput = z.array(
         title: z.string(),
         snippet: z.string(),
         url: z.string().url().optional(),
+        score: z.number().optional(),
     })
 );
 
@@ -47,23 +56,172 @@ export const ElevationProfileInput = z.object({
     // [lon, lat]
     coords: z.array(z.tuple([z.number(), z.number()])),
 });
-export const ElevationProfileOutput = z.array(
-    z.object({ distKm: z.number(), elevM: z.number() })
-);
+export const ElevationProfileOutput = z.object({
+    profile: z.array(z.object({ distKm: z.number(), elevM: z.number() })),
+    ascentM: z.number(),
+    descentM: z.number(),
+    approximate: z.boolean(),
+});
 
 export const ExportGpxInput = z.object({
-    name: z.string().min(1),
-    segments: z.array(z.array(z.tuple([z.number(), z.number()]))), // [[ [lon,lat], ... ], ...]
+    name: z.string().min(1).optional(),
+    // Raw tracks ([[ [lon,lat], ... ], ...]); omit to export the current itinerary day by day
+    segments: z.array(z.array(z.tuple([z.number(), z.number()]))).optional(),
 });
 export const ExportGpxOutput = z.object({
-    url: z.string(), // data: URL for now
+    url: z.string(), // data: URL
+    filename: z.string(),
+});
+
+export const ExportIcsInput = z.object({
+    name: z.string().min(1).optional(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // dates an undated itinerary from day 1
 });
+export const ExportIcsOutput = ExportGpxOutput;
 
 export const PlacesSearchInput = z.object({
     near: z.tuple([z.number(), z.number()]).optional(), // [lon,lat]
-    q: z.string().min(2),
-    kind: z.enum(["albergue", "cafe", "grocery"]).optional(),
+    radiusKm: z.number().positive().max(50).optional(),
+    along: z.object({
+        route: z.enum(ROUTE_IDS).optional(),
+        from: z.string().min(1),
+        to: z.string().min(1),
+        maxOffKm: z.number().positive().max(10).optional(),
+    }).optional(),
+    q: z.string().min(2).optional(),
+    kind: z.enum(PLACE_KINDS).optional(),
+    type: z.enum(ALBERGUE_KINDS).optional(),
+    maxPrice: z.enum(BUDGET_TIERS).optional(),
+    diets: z.array(z.enum(DIETARY_OPTIONS)).optional(),
+    openOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+}).refine(a => a.near || a.along || a.q, { message: "Give near, along or q" });
+
+export const PlaceSchema = z.object({
+    id: z.string(),
+    kind: z.enum(PLACE_KINDS),
+    name: z.string(),
+    town: z.string(),
+    route: z.enum(ROUTE_IDS),
+    type: z.enum(ALBERGUE_KINDS).optional(),
+    beds: z.number().int().positive().optional(),
+    priceBand: z.enum(BUDGET_TIERS).optional(),
+    season: z.object({ from: z.string(), to: z.string() }).optional(), // "MM-DD"
+    diets: z.array(z.enum(DIETARY_OPTIONS).exclude(["none"])).optional(),
+    lat: z.number(),
+    lon: z.number(),
+});
+export const PlacesSearchOutput = z.array(
+    PlaceSchema.extend({
+        distanceKm: z.number().optional(),
+        alongKm: z.number().optional(),
+        offKm: z.number().optional(),
+    })
+);
+
+export const ServicesAlongInput = z.object({
+    route: z.enum(ROUTE_IDS).optional(),
+    from: z.string().min(1),
+    to: z.string().min(1),
+    kinds: z.array(z.enum(SERVICE_KINDS)).optional(), // default: all
+    maxOffKm: z.number().positive().max(10).optional(),
+});
+export const ServicesAlongOutput = z.array(z.object({
+    id: z.string(),
+    kind: z.enum(SERVICE_KINDS),
+    name: z.string(),
+    town: z.string(),
+    route: z.enum(ROUTE_IDS),
+    lat: z.number(),
+    lon: z.number(),
+    alongKm: z.number().optional(),
+    offKm: z.number().optional(),
+}));
+
+/** ---------- Lodging (lib/booking) ---------- */
+export const LodgingHoldInput = z.object({
+    days: z.array(z.number().int().min(1)).optional(), // default: every night without a booking
+    guests: z.number().int().min(1).max(8).optional(),
+});
+export const LodgingConfirmInput = z.object({
+    days: z.array(z.number().int().min(1)).optional(), // default: every held night
+});
+export const LodgingCancelInput = LodgingConfirmInput;
+export const LodgingOutput = z.object({
+    reservations: z.array(z.object({
+        id: z.string(),
+        placeName: z.string(),
+        town: z.string(),
+        date: z.string(),
+        status: z.enum(RESERVATION_STATUSES),
+    }).passthrough()),
+    skipped: z.array(z.object({ day: z.number(), reason: z.string() })),
+});
+
+/** ---------- Itinerary edits (lib/stages/edit) ---------- */
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+export const ItineraryEditSchema = z.discriminatedUnion("op", [
+    z.object({ op: z.literal("moveStop"), from: z.string().min(1), to: z.string().min(1) }), // sleep in `to` instead of `from`
+    z.object({ op: z.literal("addRest"), town: z.string().min(1) }),
+    z.object({ op: z.literal("removeRest"), town: z.string().min(1).optional(), day: z.number().int().min(1).optional() }),
+    z.object({ op: z.literal("mergeDays"), day: z.number().int().min(1) }), // with the next walking day
+    z.object({ op: z.literal("splitDay"), day: z.number().int().min(1) }),
+    z.object({ op: z.literal("changeStart"), town: z.string().min(1).optional(), date: isoDate.optional() }),
+]);
+export const ItineraryEditInput = z.object({
+    edits: z.array(ItineraryEditSchema).min(1).max(10), // applied in order
+});
+export const ItineraryEditOutput = z.object({
+    changes: z.array(z.string()), // one line per edit, plus the new totals
+});
+
+/** ---------- Itinerary (mirrors lib/leg.ts) ---------- */
+export const LegSchema = z.object({
+    day: z.number().int().min(1),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    from: z.string().min(1),
+    to: z.string().min(1),
+    route: z.enum(ROUTE_IDS).optional(),
+    km: z.number().nonnegative().optional(),
+    toLat: z.number(),
+    toLon: z.number(),
+    fromLat: z.number().optional(),
+    fromLon: z.number().optional(),
+    ascentM: z.number().optional(),
+    descentM: z.number().optional(),
+    climbApprox: z.boolean().optional(),
+    walkMinutes: z.number().int().nonnegative().optional(),
+    effortKm: z.number().nonnegative().optional(),
+    difficulty: z.enum(DIFFICULTIES).optional(),
+    suggestedStart: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    rest: z.boolean().optional(),
+    holiday: z.string().optional(),
+    reservation: z.object({
+        id: z.string(),
+        provider: z.string(),
+        placeName: z.string(),
+        status: z.enum(RESERVATION_STATUSES),
+        heldUntil: z.string().optional(),
+        reference: z.string().optional(),
+    }).optional(),
+    food: z.array(z.object({
+        meal: z.enum(["lunch", "picnic", "resupply"]),
+        placeName: z.string(),
+        town: z.string(),
+        km: z.number(),
+        diets: z.array(z.enum(DIETARY_OPTIONS).exclude(["none"])).optional(),
+    })).optional(),
+    cost: z.object({
+        bed: z.enum(BED_KINDS),
+        bedEur: z.number(),
+        mealsEur: z.number(),
+        luggageEur: z.number().optional(),
+        passportEur: z.number().optional(),
+        totalEur: z.number(),
+    }).optional(),
+    notes: z.string().optional(),
 });
+export const ItinerarySchema = z.array(LegSchema).min(1);
 
 /** ---------- Plan schema ---------- */
 export const ToolName = z.enum([
@@ -72,8 +230,14 @@ export const ToolName = z.enum([
     "map.addMarkers",
     "rag.search",
     "places.search",
+    "services.along",
     "elevation.profile",
     "export.gpx",
+    "export.ics",
+    "itinerary.edit",
+    "lodging.hold",
+    "lodging.confirm",
+    "lodging.cancel",
 ]);
 
 export const PlanStep = z.object({
@@ -93,3 +257,4 @@ export const PlanSchema = z.object({
 
 export type Plan = z.infer<typeof PlanSchema>;
 export type PlanStepT = z.infer<typeof PlanStep>;
+export type ItineraryEdit = z.infer<typeof ItineraryEditSchema>;
@@ -0,0 +1,75 @@
+// lib/share.ts
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { ItinerarySchema } from "@/lib/schemas";
+import type { Itinerary } from "@/lib/leg";
+
+/** Shared itinerary snapshots, one JSON file per link */
+const TRIPS_DIR = process.env.TRIPS_DIR || path.join(process.cwd(), "data", "trips");
+
+const ID_LENGTH = 10;
+const ID_PATTERN = new RegExp(`^[A-Za-z0-9_-]{${ID_LENGTH}}$`);
+
+export type TripSnapshot = {
+  id: string;
+  title: string;
+  createdAt: string;        // ISO timestamp
+  itinerary: Itinerary;
+};
+
+// Also kept in memory, so links work on read-only deploys until the server restarts
+const memory = new Map<string, TripSnapshot>();
+
+/** What a walking partner sees: booking references stay with whoever booked */
+function publicCopy(itinerary: Itinerary): Itinerary {
+  return itinerary.map(({ reservation, ...leg }) =>
+    reservation ? { ...leg, reservation: { ...reservation, reference: undefined } } : leg
+  );
+}
+
+/**
+ * Store a read-only snapshot and return it with its id. The id is a hash of
+ * the content, so sharing the same plan twice gives the same link.
+ */
+export function saveTrip(itinerary: Itinerary): TripSnapshot {
+  const shared = publicCopy(itinerary);
+  const json = JSON.stringify(shared);
+  const id = crypto.createHash("sha256").update(json).digest("base64url").slice(0, ID_LENGTH);
+  const existing = loadTrip(id);
+  if (existing) return existing;
+
+  const first = shared[0];
+  const last = shared[shared.length - 1];
+  const snapshot: TripSnapshot = {
+    id,
+    title: `Camino: ${first.from} → ${last.to}`,
+    createdAt: new Date().toISOString(),
+    itinerary: shared,
+  };
+  memory.set(id, snapshot);
+  try {
+    fs.mkdirSync(TRIPS_DIR, { recursive: true });
+    fs.writeFileSync(path.join(TRIPS_DIR, `${id}.json`), JSON.stringify(snapshot));
+  } catch (e) {
+    console.warn(`[share] could not write trip ${id}: ${String(e)}`);
+  }
+  return snapshot;
+}
+
+/** A shared snapshot by id, or undefined when unknown or unreadable */
+export function loadTrip(id: string): TripSnapshot | undefined {
+  if (!ID_PATTERN.test(id)) return undefined;
+  const cached = memory.get(id);
+  if (cached) return cached;
+  try {
+    const raw = JSON.parse(fs.readFileSync(path.join(TRIPS_DIR, `${id}.json`), "utf8")) as TripSnapshot;
+    const itinerary = ItinerarySchema.safeParse(raw.itinerary);
+    if (!itinerary.success) return undefined;
+    const snapshot = { ...raw, id, itinerary: itinerary.data };
+    memory.set(id, snapshot);
+    return snapshot;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,243 @@
+// lib/stages/edit.ts
+import { formatShortDate, withDates } from "@/lib/calendar";
+import { formatDistanceWithUnit } from "@/lib/utils";
+import { addRestDay, legBetween, renumber, splitLeg, splitStages } from "@/lib/stages/splitter";
+import { findTown, townsBetween } from "@/lib/stages/registry";
+import { withTownNotes } from "@/lib/places/score";
+import type { CaminoPreferences } from "@/lib/preferences";
+import type { ItineraryEdit } from "@/lib/schemas";
+import type { Itinerary, Leg } from "@/lib/leg";
+
+/**
+ * Follow-up changes to an itinerary the walker already has ("sleep in Boente
+ * instead of Melide", "add a rest day in Arzúa"): only the days an edit
+ * touches are rebuilt, so the rest of the plan and its bookings stay put.
+ * Each edit throws with a message for the walker when it doesn't fit the plan.
+ */
+
+type EditResult = { itinerary: Itinerary; change: string; startDate?: string };
+
+const km = (n?: number) => formatDistanceWithUnit(n, "0 km");
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+/** Canonical stage-town name, on the plan's route first */
+const townName = (itinerary: Itinerary, name: string) =>
+  findTown(name, itinerary[0]?.route)?.name ?? findTown(name)?.name ?? name;
+
+/** A bed for a night that no longer happens is dropped from the plan; say so */
+function orphaned(legs: Leg[]): string {
+  return legs
+    .filter((l) => l.reservation)
+    .map((l) => ` The ${l.reservation!.status} bed at ${l.reservation!.placeName} was for the night in ${l.to}: cancel it if you no longer need it.`)
+    .join("");
+}
+
+/** First walking day after `idx`, skipping rest days */
+function nextWalking(itinerary: Itinerary, idx: number): number {
+  let next = idx + 1;
+  while (itinerary[next]?.rest) next++;
+  return next;
+}
+
+function moveStop(itinerary: Itinerary, fromName: string, toName: string): EditResult {
+  const from = townName(itinerary, fromName);
+  const to = townName(itinerary, toName);
+  const idx = itinerary.findIndex((l) => !l.rest && l.to === from);
+  if (idx === -1) throw new Error(`${fromName} is not an overnight stop in this plan`);
+
+  const leg = itinerary[idx];
+  const next = nextWalking(itinerary, idx);
+  const after = itinerary[next] as Leg | undefined;
+  // The new stop must lie on the way: between the day's start and the next night (anywhere onward on the last day)
+  const onWay = after
+    ? townsBetween(leg.from, after.to, leg.route).slice(1, -1).some((t) => t.name === to)
+    : townsBetween(leg.from, to, leg.route)[1]?.name === townsBetween(leg.from, leg.to, leg.route)[1]?.name; // same direction
+  if (!onWay) {
+    throw new Error(`${to} is not between ${leg.from} and ${after?.to ?? "the end of the route"} on this route`);
+  }
+
+  const arrive = legBetween(leg.from, to, leg.day, leg.route, idx === 0);
+  const rests = itinerary.slice(idx + 1, next)
+    .map((r) => ({ ...r, from: to, to, toLat: arrive.toLat, toLon: arrive.toLon, reservation: undefined }));
+  const depart = after ? { ...legBetween(to, after.to, after.day, after.route), reservation: after.reservation } : undefined;
+
+  return {
+    itinerary: [...itinerary.slice(0, idx), arrive, ...rests, ...(depart ? [depart] : []), ...itinerary.slice(next + 1)],
+    change:
+      `Day ${leg.day} now ends in ${to} instead of ${from} (${km(arrive.km)}, was ${km(leg.km)})` +
+      (after && depart ? `; day ${after.day} sets off from there (${km(depart.km)}, was ${km(after.km)}).` : ".") +
+      orphaned(itinerary.slice(idx, next)),
+  };
+}
+
+function addRest(itinerary: Itinerary, town: string): EditResult {
+  const legs = addRestDay(itinerary, town);
+  const added = legs.find((l, i) => l.rest && !itinerary[i]?.rest)!;
+  const later = legs.length - added.day;
+  return {
+    itinerary: legs,
+    change: `Added a rest day in ${added.to} (day ${added.day})${later ? `; the ${plural(later, "day")} after it move back one` : ""}.`,
+  };
+}
+
+function removeRest(itinerary: Itinerary, town?: string, day?: number): EditResult {
+  const name = town ? townName(itinerary, town) : undefined;
+  const idx = itinerary.findIndex((l) => l.rest && (day === undefined || l.day === day) && (!name || l.to === name));
+  if (idx === -1) {
+    throw new Error(day !== undefined ? `Day ${day} is not a rest day` : town ? `There is no rest day in ${town}` : "There is no rest day to remove");
+  }
+  const rest = itinerary[idx];
+  const later = itinerary.length - 1 - idx;
+  return {
+    itinerary: renumber([...itinerary.slice(0, idx), ...itinerary.slice(idx + 1)]),
+    change: `Removed the rest day in ${rest.to} (day ${rest.day})${later ? `; the ${plural(later, "day")} after it move forward one` : ""}.` +
+      orphaned([rest]),
+  };
+}
+
+function mergeDays(itinerary: Itinerary, day: number): EditResult {
+  const idx = itinerary.findIndex((l) => l.day === day);
+  const a = itinerary[idx];
+  if (!a) throw new Error(`There is no day ${day}`);
+  if (a.rest) throw new Error(`Day ${day} is a rest day`);
+  const b = itinerary[idx + 1];
+  if (!b) throw new Error(`Day ${day} is the last day: there is no next day to merge it with`);
+  if (b.rest) throw new Error(`Day ${day} is followed by a rest day in ${b.to}: remove it first`);
+
+  const merged = { ...legBetween(a.from, b.to, a.day, a.route, idx === 0), reservation: b.reservation };
+  return {
+    itinerary: renumber([...itinerary.slice(0, idx), merged, ...itinerary.slice(idx + 2)]),
+    change: `Merged days ${a.day} and ${b.day} into one day, ${a.from} → ${b.to} (${km(merged.km)}), with no night in ${a.to}.` +
+      orphaned([a]),
+  };
+}
+
+function splitDay(itinerary: Itinerary, day: number): EditResult {
+  const idx = itinerary.findIndex((l) => l.day === day);
+  const leg = itinerary[idx];
+  if (!leg) throw new Error(`There is no day ${day}`);
+  const legs = splitLeg(itinerary, day);
+  const [first, second] = [legs[idx], { ...legs[idx + 1], reservation: leg.reservation }]; // same night, same bed
+  legs[idx + 1] = second;
+  return {
+    itinerary: legs,
+    change: `Split day ${day} at ${first.to}: ${leg.from} → ${first.to} (${km(first.km)}), then ${first.to} → ${leg.to} (${km(second.km)}).`,
+  };
+}
+
+function changeStartTown(itinerary: Itinerary, town: string): EditResult {
+  const first = itinerary[0];
+  const last = itinerary[itinerary.length - 1];
+  const start = townName(itinerary, town);
+  if (start === first.from) throw new Error(`The walk already starts in ${start}`);
+
+  const path = townsBetween(start, last.to, first.route).map((t) => t.name);
+  if (path.indexOf(first.from) > 0) {
+    // Earlier on the route: walk in to the old start, over extra days when it's far
+    const walking = itinerary.filter((l) => !l.rest);
+    const perDay = walking.reduce((sum, l) => sum + (l.km ?? 0), 0) / walking.length;
+    const leadKm = legBetween(start, first.from, 1, first.route).km ?? 0;
+    if (leadKm < perDay / 2) {
+      const day1 = { ...legBetween(start, first.to, 1, first.route, true), reservation: first.reservation };
+      return {
+        itinerary: [day1, ...itinerary.slice(1)],
+        change: `Day 1 now starts in ${start} (${km(day1.km)}, was ${km(first.km)}).`,
+      };
+    }
+    const lead = splitStages({ route: first.route, start, end: first.from, targetStageKm: perDay });
+    return {
+      itinerary: renumber([...lead, { ...first, fromLat: undefined, fromLon: undefined }, ...itinerary.slice(1)]),
+      change: `The walk now starts in ${start}: ${plural(lead.length, "day")} (${km(leadKm)}) added before ${first.from}.`,
+    };
+  }
+
+  // Later on the route: drop the days before it and shorten the day it falls in
+  const idx = itinerary.findIndex((l) => !l.rest && townsBetween(l.from, l.to, l.route).slice(1).some((t) => t.name === start));
+  if (idx === -1) throw new Error(`${town} is not on the way from ${first.from} to ${last.to}`);
+  const leg = itinerary[idx];
+  if (leg.to === start) {
+    const next = nextWalking(itinerary, idx);
+    if (next >= itinerary.length) throw new Error(`${start} is where the walk ends`);
+    const dropped = itinerary.slice(0, next);
+    return {
+      itinerary: renumber([{ ...itinerary[next], fromLat: leg.toLat, fromLon: leg.toLon }, ...itinerary.slice(next + 1)]),
+      change: `The walk now starts in ${start}, leaving out ${plural(dropped.length, "day")} before it.` + orphaned(dropped),
+    };
+  }
+  const day1 = { ...legBetween(start, leg.to, 1, leg.route, true), reservation: leg.reservation };
+  const dropped = itinerary.slice(0, idx);
+  return {
+    itinerary: renumber([day1, ...itinerary.slice(idx + 1)]),
+    change: `The walk now starts in ${start}` +
+      (dropped.length ? `, leaving out ${plural(dropped.length, "day")} before it` : "") +
+      `; day 1 to ${leg.to} is ${km(day1.km)} (was ${km(leg.km)}).` + orphaned(dropped),
+  };
+}
+
+function applyEdit(itinerary: Itinerary, edit: ItineraryEdit): EditResult {
+  switch (edit.op) {
+    case "moveStop":
+      return moveStop(itinerary, edit.from, edit.to);
+    case "addRest":
+      return addRest(itinerary, edit.town);
+    case "removeRest":
+      return removeRest(itinerary, edit.town, edit.day);
+    case "mergeDays":
+      return mergeDays(itinerary, edit.day);
+    case "splitDay":
+      return splitDay(itinerary, edit.day);
+    case "changeStart": {
+      if (!edit.town && !edit.date) throw new Error("Say where or when the walk should start");
+      const moved = edit.town ? changeStartTown(itinerary, edit.town) : { itinerary, change: "" };
+      const old = itinerary[0].date;
+      const when = edit.date
+        ? `The walk now starts on ${formatShortDate(edit.date)}${old && old !== edit.date ? ` (was ${formatShortDate(old)})` : ""}.`
+        : "";
+      return { itinerary: moved.itinerary, change: [moved.change, when].filter(Boolean).join(" "), startDate: edit.date };
+    }
+  }
+}
+
+type Totals = { walking: number; rest: number; km: number; end?: string };
+
+function totals(itinerary: Itinerary): Totals {
+  return {
+    walking: itinerary.filter((l) => !l.rest).length,
+    rest: itinerary.filter((l) => l.rest).length,
+    km: Math.round(itinerary.reduce((sum, l) => sum + (l.km ?? 0), 0) * 10) / 10,
+    end: itinerary[itinerary.length - 1]?.date,
+  };
+}
+
+/** "Now 6 walking days + 1 rest, 118.2 km, arriving Sat 16 May (was 5 walking days, 115.3 km)." */
+function describeTotals(before: Itinerary, after: Itinerary): string {
+  const [a, b] = [totals(before), totals(after)];
+  if (a.walking === b.walking && a.rest === b.rest && a.km === b.km && a.end === b.end) return "";
+  const days = (t: Totals) => `${plural(t.walking, "walking day")}${t.rest ? ` + ${t.rest} rest` : ""}`;
+  return `Now ${days(b)}, ${km(b.km)}${b.end ? `, arriving ${formatShortDate(b.end)}` : ""} ` +
+    `(was ${days(a)}, ${km(a.km)}${a.end && a.end !== b.end ? `, arriving ${formatShortDate(a.end)}` : ""}).`;
+}
+
+/**
+ * Apply edits in order and describe each, plus the new totals when the
+ * length, distance or arrival changed. Dates are re-stamped from day 1, and
+ * rebuilt days get their "Why <town>" note back (towns moved to count as asked for).
+ */
+export function applyEdits(
+  itinerary: Itinerary, edits: ItineraryEdit[], prefs: Partial<CaminoPreferences> = {}
+): { itinerary: Itinerary; changes: string[] } {
+  let legs = itinerary;
+  let startDate = itinerary[0]?.date;
+  const changes: string[] = [];
+  for (const edit of edits) {
+    const step = applyEdit(legs, edit);
+    legs = step.itinerary;
+    startDate = step.startDate ?? startDate;
+    changes.push(step.change);
+  }
+  const asked = edits.flatMap((e) => (e.op === "moveStop" ? [e.to] : []));
+  legs = legs.map((l) => (l.rest || l.notes ? l : withTownNotes([l], prefs, asked)[0]));
+  legs = withDates(renumber(legs), startDate);
+  const summary = describeTotals(itinerary, legs);
+  return { itinerary: legs, changes: summary ? [...changes, summary] : changes };
+}
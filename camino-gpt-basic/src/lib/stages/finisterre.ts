@@ -0,0 +1,33 @@
+// lib/stages/finisterre.ts
+import type { CaminoRoute, StageTown } from "@/lib/stages/types";
+
+/**
+ * Camino de Finisterre — Santiago → Cabo Fisterra (~90 km).
+ * Walked away from Santiago, so kmFromSantiago grows along the route.
+ */
+export const FINISTERRE: StageTown[] = [
+  { name: "Santiago de Compostela", lat: 42.8806, lon: -8.5446, altM:  260, kmFromSantiago: 0.0 },
+  { name: "Ponte Maceira",          lat: 42.8850, lon: -8.7070, altM:  160, kmFromSantiago: 16.3 },
+  { name: "Negreira",               lat: 42.9090, lon: -8.7360, altM:  170, kmFromSantiago: 20.8 },
+  { name: "Vilaserío",              lat: 42.9450, lon: -8.8900, altM:  320, kmFromSantiago: 33.6 },
+  { name: "Santa Mariña",           lat: 42.9500, lon: -8.9660, altM:  340, kmFromSantiago: 42.1 },
+  { name: "Olveiroa",               lat: 42.9790, lon: -9.0800, altM:  270, kmFromSantiago: 53.5 },
+  { name: "Hospital",               lat: 42.9740, lon: -9.1090, altM:  370, kmFromSantiago: 57.0 },
+  { name: "Cee",                    lat: 42.9550, lon: -9.1880, altM:   10, kmFromSantiago: 72.6 },
+  { name: "Corcubión",              lat: 42.9440, lon: -9.1920, altM:   10, kmFromSantiago: 74.3 },
+  { name: "Fisterra",               lat: 42.9050, lon: -9.2640, altM:   10, kmFromSantiago: 87.1 },
+  { name: "Cabo Fisterra",          lat: 42.8830, lon: -9.2720, altM:  140, kmFromSantiago: 90.3 },
+];
+
+export const FINISTERRE_ROUTE: CaminoRoute = {
+  id: "finisterre",
+  name: "Camino de Finisterre",
+  direction: "fromSantiago",
+  towns: FINISTERRE,
+  aliases: {
+    "finisterre": "Fisterra",
+    "cape finisterre": "Cabo Fisterra",
+    "cabo finisterre": "Cabo Fisterra",
+  },
+  keywords: ["finisterre", "fisterra", "end of the world"],
+};
@@ -1,56 +1,186 @@
 // lib/stages/frances.ts
-export type StageTown = { 
-  name: string; 
-  lat: number; 
-  lon: number; 
-  kmFromSantiago?: number; // Distance from Santiago along the Camino (reverse direction)
-};
+import type { CaminoRoute, StageTown } from "@/lib/stages/types";
+
+export type { StageTown };
 
-/** Camino Francés — last ~115km (Sarria → Santiago) with more waypoints */
-export const FRANCES_LAST100: StageTown[] = [
-  { name: "Sarria",               lat: 42.7812, lon: -7.4143, kmFromSantiago: 115.0 },
-  { name: "Barbadelo",            lat: 42.7945, lon: -7.4387, kmFromSantiago: 110.4 },
-  { name: "Rente",                lat: 42.8123, lon: -7.4721, kmFromSantiago: 106.8 },
-  { name: "Mercadoiro",           lat: 42.8156, lon: -7.5234, kmFromSantiago: 101.9 },
-  { name: "Portomarín",           lat: 42.8075, lon: -7.6153, kmFromSantiago: 92.8 },
-  { name: "Gonzar",               lat: 42.8254, lon: -7.6891, kmFromSantiago: 83.2 },
-  { name: "Castromaior",          lat: 42.8421, lon: -7.7234, kmFromSantiago: 77.6 },
-  { name: "Hospital da Cruz",     lat: 42.8587, lon: -7.7812, kmFromSantiago: 72.1 },
-  { name: "Palas de Rei",         lat: 42.8741, lon: -7.8687, kmFromSantiago: 67.7 },
-  { name: "Casanova",             lat: 42.8923, lon: -7.9234, kmFromSantiago: 61.2 },
-  { name: "Porto de Bois",        lat: 42.9034, lon: -7.9645, kmFromSantiago: 56.9 },
-  { name: "Melide",               lat: 42.9142, lon: -8.0129, kmFromSantiago: 52.3 },
-  { name: "Boente",               lat: 42.9178, lon: -8.0567, kmFromSantiago: 46.1 },
-  { name: "Castañeda",            lat: 42.9234, lon: -8.0891, kmFromSantiago: 41.8 },
-  { name: "Ribadiso da Baixo",    lat: 42.9267, lon: -8.1234, kmFromSantiago: 37.2 },
-  { name: "Arzúa",                lat: 42.9290, lon: -8.1585, kmFromSantiago: 33.5 },
-  { name: "Pedrouzo",             lat: 42.8971, lon: -8.2156, kmFromSantiago: 24.9 },
-  { name: "A Rúa",                lat: 42.9034, lon: -8.2567, kmFromSantiago: 19.6 },
-  { name: "O Pedrouzo",           lat: 42.8971, lon: -8.3773, kmFromSantiago: 14.2 },
-  { name: "Amenal",               lat: 42.8834, lon: -8.4123, kmFromSantiago: 9.3 },
-  { name: "San Paio",             lat: 42.8789, lon: -8.4567, kmFromSantiago: 5.6 },
-  { name: "Santiago de Compostela", lat: 42.8806, lon: -8.5449, kmFromSantiago: 0 },
+/**
+ * Camino Francés — Saint-Jean-Pied-de-Port → Santiago (~777 km).
+ * Distances follow the usual guidebook stages (via San Xil after Triacastela);
+ * coordinates are town centres, altitudes rounded to 5–10 m.
+ */
+export const FRANCES: StageTown[] = [
+  { name: "Saint-Jean-Pied-de-Port",       lat: 43.1631, lon: -1.2381, altM:  170, kmFromSantiago: 776.7 },
+  { name: "Orisson",                       lat: 43.1099, lon: -1.2254, altM:  790, kmFromSantiago: 768.9 },
+  { name: "Roncesvalles",                  lat: 43.0093, lon: -1.3196, altM:  952, kmFromSantiago: 752.1 },
+  { name: "Burguete",                      lat: 42.9903, lon: -1.3355, altM:  893, kmFromSantiago: 749.2 },
+  { name: "Espinal",                       lat: 42.9798, lon: -1.3625, altM:  871, kmFromSantiago: 745.5 },
+  { name: "Bizkarreta",                    lat: 42.9659, lon: -1.4213, altM:  785, kmFromSantiago: 740.4 },
+  { name: "Lintzoain",                     lat: 42.9560, lon: -1.4470, altM:  740, kmFromSantiago: 738.4 },
+  { name: "Zubiri",                        lat: 42.9307, lon: -1.5036, altM:  526, kmFromSantiago: 730.2 },
+  { name: "Larrasoaña",                    lat: 42.9012, lon: -1.5405, altM:  500, kmFromSantiago: 724.7 },
+  { name: "Trinidad de Arre",              lat: 42.8415, lon: -1.6100, altM:  440, kmFromSantiago: 713.6 },
+  { name: "Pamplona",                      lat: 42.8185, lon: -1.6440, altM:  450, kmFromSantiago: 709.2 },
+  { name: "Cizur Menor",                   lat: 42.7876, lon: -1.6771, altM:  480, kmFromSantiago: 704.3 },
+  { name: "Zariquiegui",                   lat: 42.7484, lon: -1.7254, altM:  620, kmFromSantiago: 698.0 },
+  { name: "Uterga",                        lat: 42.7095, lon: -1.7607, altM:  490, kmFromSantiago: 691.1 },
+  { name: "Muruzábal",                     lat: 42.6905, lon: -1.7703, altM:  440, kmFromSantiago: 688.4 },
+  { name: "Obanos",                        lat: 42.6800, lon: -1.7855, altM:  410, kmFromSantiago: 686.6 },
+  { name: "Puente la Reina",               lat: 42.6717, lon: -1.8146, altM:  346, kmFromSantiago: 684.3 },
+  { name: "Mañeru",                        lat: 42.6701, lon: -1.8615, altM:  450, kmFromSantiago: 679.5 },
+  { name: "Cirauqui",                      lat: 42.6762, lon: -1.8915, altM:  498, kmFromSantiago: 676.8 },
+  { name: "Lorca",                         lat: 42.6712, lon: -1.9435, altM:  483, kmFromSantiago: 671.2 },
+  { name: "Villatuerta",                   lat: 42.6582, lon: -1.9933, altM:  433, kmFromSantiago: 666.6 },
+  { name: "Estella",                       lat: 42.6716, lon: -2.0309, altM:  426, kmFromSantiago: 662.5 },
+  { name: "Ayegui",                        lat: 42.6589, lon: -2.0407, altM:  500, kmFromSantiago: 660.5 },
+  { name: "Azqueta",                       lat: 42.6382, lon: -2.0835, altM:  570, kmFromSantiago: 655.0 },
+  { name: "Villamayor de Monjardín",       lat: 42.6297, lon: -2.1050, altM:  650, kmFromSantiago: 653.2 },
+  { name: "Los Arcos",                     lat: 42.5686, lon: -2.1922, altM:  444, kmFromSantiago: 641.0 },
+  { name: "Sansol",                        lat: 42.5541, lon: -2.2653, altM:  505, kmFromSantiago: 634.1 },
+  { name: "Torres del Río",                lat: 42.5514, lon: -2.2710, altM:  477, kmFromSantiago: 633.3 },
+  { name: "Viana",                         lat: 42.5154, lon: -2.3712, altM:  470, kmFromSantiago: 622.3 },
+  { name: "Logroño",                       lat: 42.4650, lon: -2.4452, altM:  384, kmFromSantiago: 612.8 },
+  { name: "Navarrete",                     lat: 42.4290, lon: -2.5620, altM:  512, kmFromSantiago: 599.9 },
+  { name: "Ventosa",                       lat: 42.4043, lon: -2.6272, altM:  640, kmFromSantiago: 592.9 },
+  { name: "Nájera",                        lat: 42.4163, lon: -2.7331, altM:  485, kmFromSantiago: 583.0 },
+  { name: "Azofra",                        lat: 42.4238, lon: -2.8003, altM:  550, kmFromSantiago: 577.2 },
+  { name: "Cirueña",                       lat: 42.4122, lon: -2.8952, altM:  740, kmFromSantiago: 567.9 },
+  { name: "Santo Domingo de la Calzada",   lat: 42.4407, lon: -2.9532, altM:  640, kmFromSantiago: 561.8 },
+  { name: "Grañón",                        lat: 42.4503, lon: -3.0275, altM:  724, kmFromSantiago: 554.9 },
+  { name: "Redecilla del Camino",          lat: 42.4378, lon: -3.0651, altM:  740, kmFromSantiago: 550.9 },
+  { name: "Belorado",                      lat: 42.4205, lon: -3.1903, altM:  770, kmFromSantiago: 539.2 },
+  { name: "Tosantos",                      lat: 42.4136, lon: -3.2431, altM:  820, kmFromSantiago: 534.4 },
+  { name: "Villafranca Montes de Oca",     lat: 42.3899, lon: -3.3083, altM:  948, kmFromSantiago: 527.2 },
+  { name: "San Juan de Ortega",            lat: 42.3757, lon: -3.4373, altM: 1000, kmFromSantiago: 515.2 },
+  { name: "Agés",                          lat: 42.3700, lon: -3.4794, altM:  960, kmFromSantiago: 511.5 },
+  { name: "Atapuerca",                     lat: 42.3768, lon: -3.5073, altM:  960, kmFromSantiago: 509.0 },
+  { name: "Cardeñuela Riopico",            lat: 42.3716, lon: -3.5591, altM:  930, kmFromSantiago: 503.1 },
+  { name: "Burgos",                        lat: 42.3406, lon: -3.7040, altM:  860, kmFromSantiago: 488.8 },
+  { name: "Tardajos",                      lat: 42.3486, lon: -3.8180, altM:  830, kmFromSantiago: 478.4 },
+  { name: "Rabé de las Calzadas",          lat: 42.3400, lon: -3.8346, altM:  826, kmFromSantiago: 476.5 },
+  { name: "Hornillos del Camino",          lat: 42.3383, lon: -3.9242, altM:  825, kmFromSantiago: 468.5 },
+  { name: "Hontanas",                      lat: 42.3123, lon: -4.0446, altM:  870, kmFromSantiago: 458.0 },
+  { name: "Castrojeriz",                   lat: 42.2885, lon: -4.1379, altM:  808, kmFromSantiago: 448.6 },
+  { name: "Itero de la Vega",              lat: 42.2870, lon: -4.2570, altM:  770, kmFromSantiago: 437.7 },
+  { name: "Boadilla del Camino",           lat: 42.2585, lon: -4.3460, altM:  795, kmFromSantiago: 429.3 },
+  { name: "Frómista",                      lat: 42.2671, lon: -4.4058, altM:  780, kmFromSantiago: 423.3 },
+  { name: "Población de Campos",           lat: 42.2699, lon: -4.4465, altM:  790, kmFromSantiago: 419.9 },
+  { name: "Villalcázar de Sirga",          lat: 42.3163, lon: -4.5429, altM:  810, kmFromSantiago: 409.5 },
+  { name: "Carrión de los Condes",         lat: 42.3383, lon: -4.6029, altM:  839, kmFromSantiago: 403.7 },
+  { name: "Calzadilla de la Cueza",        lat: 42.3292, lon: -4.8047, altM:  857, kmFromSantiago: 386.5 },
+  { name: "Ledigos",                       lat: 42.3553, lon: -4.8653, altM:  880, kmFromSantiago: 380.3 },
+  { name: "Terradillos de los Templarios", lat: 42.3629, lon: -4.8904, altM:  880, kmFromSantiago: 377.4 },
+  { name: "Moratinos",                     lat: 42.3614, lon: -4.9275, altM:  860, kmFromSantiago: 374.1 },
+  { name: "San Nicolás del Real Camino",   lat: 42.3637, lon: -4.9527, altM:  830, kmFromSantiago: 371.5 },
+  { name: "Sahagún",                       lat: 42.3707, lon: -5.0294, altM:  816, kmFromSantiago: 364.4 },
+  { name: "Bercianos del Real Camino",     lat: 42.3877, lon: -5.1446, altM:  850, kmFromSantiago: 354.1 },
+  { name: "El Burgo Ranero",               lat: 42.4230, lon: -5.2206, altM:  880, kmFromSantiago: 346.6 },
+  { name: "Reliegos",                      lat: 42.4744, lon: -5.3562, altM:  830, kmFromSantiago: 333.6 },
+  { name: "Mansilla de las Mulas",         lat: 42.4984, lon: -5.4161, altM:  800, kmFromSantiago: 327.3 },
+  { name: "Puente Villarente",             lat: 42.5430, lon: -5.4917, altM:  800, kmFromSantiago: 321.3 },
+  { name: "León",                          lat: 42.5987, lon: -5.5670, altM:  838, kmFromSantiago: 309.0 },
+  { name: "La Virgen del Camino",          lat: 42.5803, lon: -5.6404, altM:  905, kmFromSantiago: 301.6 },
+  { name: "Villadangos del Páramo",        lat: 42.5176, lon: -5.7668, altM:  902, kmFromSantiago: 288.0 },
+  { name: "San Martín del Camino",         lat: 42.4961, lon: -5.8092, altM:  870, kmFromSantiago: 283.4 },
+  { name: "Hospital de Órbigo",            lat: 42.4636, lon: -5.8826, altM:  820, kmFromSantiago: 276.1 },
+  { name: "San Justo de la Vega",          lat: 42.4575, lon: -6.0166, altM:  850, kmFromSantiago: 263.6 },
+  { name: "Astorga",                       lat: 42.4573, lon: -6.0556, altM:  869, kmFromSantiago: 259.8 },
+  { name: "Murias de Rechivaldo",          lat: 42.4598, lon: -6.1072, altM:  881, kmFromSantiago: 255.1 },
+  { name: "Santa Catalina de Somoza",      lat: 42.4545, lon: -6.1577, altM:  978, kmFromSantiago: 250.6 },
+  { name: "El Ganso",                      lat: 42.4626, lon: -6.2075, altM: 1013, kmFromSantiago: 246.5 },
+  { name: "Rabanal del Camino",            lat: 42.4815, lon: -6.2845, altM: 1150, kmFromSantiago: 239.5 },
+  { name: "Foncebadón",                    lat: 42.4913, lon: -6.3436, altM: 1430, kmFromSantiago: 233.9 },
+  { name: "Manjarín",                      lat: 42.4893, lon: -6.3818, altM: 1450, kmFromSantiago: 229.4 },
+  { name: "El Acebo",                      lat: 42.4996, lon: -6.4562, altM: 1145, kmFromSantiago: 222.4 },
+  { name: "Riego de Ambrós",               lat: 42.5191, lon: -6.4794, altM:  930, kmFromSantiago: 219.0 },
+  { name: "Molinaseca",                    lat: 42.5386, lon: -6.5196, altM:  595, kmFromSantiago: 214.3 },
+  { name: "Ponferrada",                    lat: 42.5461, lon: -6.5962, altM:  541, kmFromSantiago: 206.6 },
+  { name: "Camponaraya",                   lat: 42.5792, lon: -6.6669, altM:  490, kmFromSantiago: 195.8 },
+  { name: "Cacabelos",                     lat: 42.6004, lon: -6.7264, altM:  483, kmFromSantiago: 190.0 },
+  { name: "Villafranca del Bierzo",        lat: 42.6064, lon: -6.8109, altM:  511, kmFromSantiago: 182.0 },
+  { name: "Pereje",                        lat: 42.6304, lon: -6.8557, altM:  540, kmFromSantiago: 176.9 },
+  { name: "Trabadelo",                     lat: 42.6485, lon: -6.8816, altM:  560, kmFromSantiago: 172.4 },
+  { name: "La Portela de Valcarce",        lat: 42.6586, lon: -6.9143, altM:  620, kmFromSantiago: 168.5 },
+  { name: "Vega de Valcarce",              lat: 42.6652, lon: -6.9396, altM:  630, kmFromSantiago: 165.6 },
+  { name: "Ruitelán",                      lat: 42.6689, lon: -6.9614, altM:  660, kmFromSantiago: 163.6 },
+  { name: "Las Herrerías",                 lat: 42.6706, lon: -6.9778, altM:  690, kmFromSantiago: 162.5 },
+  { name: "La Faba",                       lat: 42.6829, lon: -7.0058, altM:  920, kmFromSantiago: 159.1 },
+  { name: "Laguna de Castilla",            lat: 42.6964, lon: -7.0232, altM: 1150, kmFromSantiago: 156.8 },
+  { name: "O Cebreiro",                    lat: 42.7079, lon: -7.0436, altM: 1300, kmFromSantiago: 154.4 },
+  { name: "Liñares",                       lat: 42.7040, lon: -7.0782, altM: 1230, kmFromSantiago: 151.1 },
+  { name: "Hospital da Condesa",           lat: 42.7083, lon: -7.0987, altM: 1260, kmFromSantiago: 148.7 },
+  { name: "Alto do Poio",                  lat: 42.7235, lon: -7.1039, altM: 1335, kmFromSantiago: 145.7 },
+  { name: "Fonfría",                       lat: 42.7297, lon: -7.1344, altM: 1290, kmFromSantiago: 142.3 },
+  { name: "O Biduedo",                     lat: 42.7361, lon: -7.1631, altM: 1200, kmFromSantiago: 139.9 },
+  { name: "Triacastela",                   lat: 42.7560, lon: -7.2392, altM:  665, kmFromSantiago: 133.3 },
+  { name: "Calvor",                        lat: 42.7714, lon: -7.3675, altM:  530, kmFromSantiago: 119.7 },
+  { name: "Sarria",                        lat: 42.7812, lon: -7.4143, altM:  440, kmFromSantiago: 115.0 },
+  { name: "Barbadelo",                     lat: 42.7946, lon: -7.4390, altM:  580, kmFromSantiago: 110.6 },
+  { name: "Rente",                         lat: 42.8006, lon: -7.4625, altM:  610, kmFromSantiago: 109.3 },
+  { name: "Morgade",                       lat: 42.8106, lon: -7.5272, altM:  660, kmFromSantiago: 102.2 },
+  { name: "Ferreiros",                     lat: 42.8126, lon: -7.5397, altM:  650, kmFromSantiago: 101.0 },
+  { name: "Mercadoiro",                    lat: 42.8153, lon: -7.5710, altM:  480, kmFromSantiago: 97.4 },
+  { name: "Vilachá",                       lat: 42.8147, lon: -7.6043, altM:  440, kmFromSantiago: 94.5 },
+  { name: "Portomarín",                    lat: 42.8075, lon: -7.6160, altM:  385, kmFromSantiago: 92.6 },
+  { name: "Gonzar",                        lat: 42.8255, lon: -7.6944, altM:  550, kmFromSantiago: 84.6 },
+  { name: "Castromaior",                   lat: 42.8302, lon: -7.7128, altM:  580, kmFromSantiago: 83.3 },
+  { name: "Hospital da Cruz",              lat: 42.8419, lon: -7.7421, altM:  680, kmFromSantiago: 80.7 },
+  { name: "Ventas de Narón",               lat: 42.8426, lon: -7.7510, altM:  700, kmFromSantiago: 79.3 },
+  { name: "Ligonde",                       lat: 42.8596, lon: -7.8073, altM:  620, kmFromSantiago: 76.0 },
+  { name: "Palas de Rei",                  lat: 42.8738, lon: -7.8690, altM:  565, kmFromSantiago: 67.8 },
+  { name: "San Xulián do Camiño",          lat: 42.8830, lon: -7.9155, altM:  460, kmFromSantiago: 64.3 },
+  { name: "Casanova",                      lat: 42.8939, lon: -7.9476, altM:  480, kmFromSantiago: 62.2 },
+  { name: "Porto de Bois",                 lat: 42.8981, lon: -7.9648, altM:  470, kmFromSantiago: 61.0 },
+  { name: "Leboreiro",                     lat: 42.9001, lon: -7.9861, altM:  450, kmFromSantiago: 58.6 },
+  { name: "Furelos",                       lat: 42.9110, lon: -8.0053, altM:  410, kmFromSantiago: 54.9 },
+  { name: "Melide",                        lat: 42.9141, lon: -8.0146, altM:  455, kmFromSantiago: 53.4 },
+  { name: "Boente",                        lat: 42.9164, lon: -8.0719, altM:  400, kmFromSantiago: 47.7 },
+  { name: "Castañeda",                     lat: 42.9220, lon: -8.0890, altM:  420, kmFromSantiago: 45.5 },
+  { name: "Ribadiso da Baixo",             lat: 42.9259, lon: -8.1306, altM:  310, kmFromSantiago: 42.2 },
+  { name: "Arzúa",                         lat: 42.9276, lon: -8.1631, altM:  390, kmFromSantiago: 39.3 },
+  { name: "A Salceda",                     lat: 42.9177, lon: -8.2676, altM:  380, kmFromSantiago: 28.0 },
+  { name: "Santa Irene",                   lat: 42.9063, lon: -8.3230, altM:  390, kmFromSantiago: 23.3 },
+  { name: "A Rúa",                         lat: 42.9072, lon: -8.3497, altM:  300, kmFromSantiago: 20.5 },
+  { name: "O Pedrouzo",                    lat: 42.9045, lon: -8.3621, altM:  290, kmFromSantiago: 19.5 },
+  { name: "Amenal",                        lat: 42.9013, lon: -8.3946, altM:  260, kmFromSantiago: 16.2 },
+  { name: "San Paio",                      lat: 42.9076, lon: -8.4252, altM:  330, kmFromSantiago: 12.6 },
+  { name: "Lavacolla",                     lat: 42.8990, lon: -8.4420, altM:  300, kmFromSantiago: 10.5 },
+  { name: "Monte do Gozo",                 lat: 42.8862, lon: -8.4925, altM:  370, kmFromSantiago: 5.1 },
+  { name: "Santiago de Compostela",        lat: 42.8806, lon: -8.5446, altM:  260, kmFromSantiago: 0.0 },
 ];
 
-/** Calculate distance between two towns using their kmFromSantiago values */
-export function distanceBetweenTowns(fromTown: string, toTown: string): number | null {
-  const from = FRANCES_LAST100.find(t => t.name.toLowerCase() === fromTown.toLowerCase());
-  const to = FRANCES_LAST100.find(t => t.name.toLowerCase() === toTown.toLowerCase());
-  
-  if (!from || !to || from.kmFromSantiago === undefined || to.kmFromSantiago === undefined) {
-    return null;
-  }
-  
-  return Math.abs(from.kmFromSantiago - to.kmFromSantiago);
-}
+/** Camino Francés — last ~115km (Sarria → Santiago) */
+export const FRANCES_LAST100: StageTown[] = FRANCES.slice(FRANCES.findIndex(t => t.name === "Sarria"));
 
-/** Return inclusive slice of stage towns between start and end, or [] if not found */
-export function townsBetween(startName: string, endName: string): StageTown[] {
-  const idx = (n: string) =>
-    FRANCES_LAST100.findIndex(t => t.name.toLowerCase() === n.trim().toLowerCase());
-  const i = idx(startName);
-  const j = idx(endName);
-  if (i === -1 || j === -1) return [];
-  if (i <= j) return FRANCES_LAST100.slice(i, j + 1);
-  return FRANCES_LAST100.slice(j, i + 1).reverse();
-}
+/** Short or alternative names the planner and users tend to use */
+const FRANCES_ALIASES: Record<string, string> = {
+  "sjpp": "Saint-Jean-Pied-de-Port",
+  "saint jean": "Saint-Jean-Pied-de-Port",
+  "st jean": "Saint-Jean-Pied-de-Port",
+  "st-jean-pied-de-port": "Saint-Jean-Pied-de-Port",
+  "saint jean pied de port": "Saint-Jean-Pied-de-Port",
+  "roncesvaux": "Roncesvalles",
+  "orreaga": "Roncesvalles",
+  "iruna": "Pamplona",
+  "lizarra": "Estella",
+  "santo domingo": "Santo Domingo de la Calzada",
+  "carrion": "Carrión de los Condes",
+  "mansilla": "Mansilla de las Mulas",
+  "villadangos": "Villadangos del Páramo",
+  "rabanal": "Rabanal del Camino",
+  "villafranca": "Villafranca del Bierzo",
+  "cebreiro": "O Cebreiro",
+  "pedrouzo": "O Pedrouzo",
+  "arca": "O Pedrouzo",
+  "palas": "Palas de Rei",
+  "ribadiso": "Ribadiso da Baixo",
+};
+
+export const FRANCES_ROUTE: CaminoRoute = {
+  id: "frances",
+  name: "Camino Francés",
+  direction: "toSantiago",
+  towns: FRANCES,
+  defaultStart: "Sarria",
+  aliases: FRANCES_ALIASES,
+  keywords: ["frances", "french way", "camino frances"],
+};
@@ -0,0 +1,27 @@
+// lib/stages/ingles.ts
+import type { CaminoRoute, StageTown } from "@/lib/stages/types";
+
+/** Camino Inglés — Ferrol → Santiago (~118 km), the full-Compostela branch */
+export const INGLES: StageTown[] = [
+  { name: "Ferrol",                 lat: 43.4840, lon: -8.2330, altM:   10, kmFromSantiago: 117.5 },
+  { name: "Neda",                   lat: 43.4986, lon: -8.1572, altM:   10, kmFromSantiago: 103.0 },
+  { name: "Pontedeume",             lat: 43.4070, lon: -8.1720, altM:   10, kmFromSantiago: 88.0 },
+  { name: "Miño",                   lat: 43.3500, lon: -8.2090, altM:   20, kmFromSantiago: 78.0 },
+  { name: "Betanzos",               lat: 43.2790, lon: -8.2130, altM:   30, kmFromSantiago: 68.0 },
+  { name: "Presedo",                lat: 43.2180, lon: -8.1920, altM:  300, kmFromSantiago: 57.5 },
+  { name: "Hospital de Bruma",      lat: 43.1480, lon: -8.2240, altM:  430, kmFromSantiago: 40.0 },
+  { name: "Sigüeiro",               lat: 42.9680, lon: -8.4420, altM:  240, kmFromSantiago: 16.0 },
+  { name: "Santiago de Compostela", lat: 42.8806, lon: -8.5446, altM:  260, kmFromSantiago: 0.0 },
+];
+
+export const INGLES_ROUTE: CaminoRoute = {
+  id: "ingles",
+  name: "Camino Inglés",
+  direction: "toSantiago",
+  towns: INGLES,
+  aliases: {
+    "bruma": "Hospital de Bruma",
+    "sigueiro": "Sigüeiro",
+  },
+  keywords: ["ingles", "english way", "camino ingles", "english route"],
+};
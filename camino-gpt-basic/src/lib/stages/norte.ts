@@ -0,0 +1,73 @@
+// lib/stages/norte.ts
+import type { CaminoRoute, StageTown } from "@/lib/stages/types";
+import { FRANCES } from "@/lib/stages/frances";
+
+/**
+ * Camino del Norte — Irún → Santiago (~816 km) along the Cantabrian coast,
+ * turning inland at Ribadeo and joining the Francés at Arzúa.
+ */
+export const NORTE: StageTown[] = [
+  { name: "Irún",                       lat: 43.3390, lon: -1.7890, altM:   10, kmFromSantiago: 815.6 },
+  { name: "Donostia-San Sebastián",     lat: 43.3180, lon: -1.9810, altM:   10, kmFromSantiago: 789.6 },
+  { name: "Zarautz",                    lat: 43.2840, lon: -2.1700, altM:    5, kmFromSantiago: 768.1 },
+  { name: "Deba",                       lat: 43.2950, lon: -2.3520, altM:    5, kmFromSantiago: 746.1 },
+  { name: "Markina-Xemein",             lat: 43.2680, lon: -2.4970, altM:   80, kmFromSantiago: 722.1 },
+  { name: "Gernika",                    lat: 43.3160, lon: -2.6780, altM:   10, kmFromSantiago: 697.1 },
+  { name: "Lezama",                     lat: 43.2730, lon: -2.8310, altM:   60, kmFromSantiago: 677.6 },
+  { name: "Bilbao",                     lat: 43.2570, lon: -2.9230, altM:   20, kmFromSantiago: 666.1 },
+  { name: "Portugalete",                lat: 43.3200, lon: -3.0200, altM:   20, kmFromSantiago: 647.1 },
+  { name: "Pobeña",                     lat: 43.3340, lon: -3.1230, altM:   10, kmFromSantiago: 632.6 },
+  { name: "Castro Urdiales",            lat: 43.3820, lon: -3.2150, altM:   10, kmFromSantiago: 616.6 },
+  { name: "Liendo",                     lat: 43.3920, lon: -3.3860, altM:   70, kmFromSantiago: 594.6 },
+  { name: "Laredo",                     lat: 43.4100, lon: -3.4190, altM:    5, kmFromSantiago: 586.6 },
+  { name: "Santoña",                    lat: 43.4430, lon: -3.4570, altM:    5, kmFromSantiago: 581.1 },
+  { name: "Güemes",                     lat: 43.4530, lon: -3.6880, altM:   60, kmFromSantiago: 557.6 },
+  { name: "Santander",                  lat: 43.4620, lon: -3.8050, altM:   20, kmFromSantiago: 543.6 },
+  { name: "Boo de Piélagos",            lat: 43.4230, lon: -3.9290, altM:   20, kmFromSantiago: 531.1 },
+  { name: "Santillana del Mar",         lat: 43.3890, lon: -4.1060, altM:   80, kmFromSantiago: 507.1 },
+  { name: "Comillas",                   lat: 43.3860, lon: -4.2910, altM:   20, kmFromSantiago: 485.1 },
+  { name: "San Vicente de la Barquera", lat: 43.3840, lon: -4.3990, altM:   10, kmFromSantiago: 473.1 },
+  { name: "Colombres",                  lat: 43.3740, lon: -4.5520, altM:   90, kmFromSantiago: 458.6 },
+  { name: "Llanes",                     lat: 43.4200, lon: -4.7550, altM:   10, kmFromSantiago: 435.6 },
+  { name: "Ribadesella",                lat: 43.4620, lon: -5.0590, altM:   10, kmFromSantiago: 405.1 },
+  { name: "Colunga",                    lat: 43.4860, lon: -5.2700, altM:   20, kmFromSantiago: 385.1 },
+  { name: "Villaviciosa",               lat: 43.4810, lon: -5.4350, altM:   10, kmFromSantiago: 368.1 },
+  { name: "Gijón",                      lat: 43.5450, lon: -5.6620, altM:   10, kmFromSantiago: 339.1 },
+  { name: "Avilés",                     lat: 43.5560, lon: -5.9240, altM:   20, kmFromSantiago: 314.6 },
+  { name: "Muros de Nalón",             lat: 43.5370, lon: -6.1040, altM:  100, kmFromSantiago: 292.6 },
+  { name: "Soto de Luiña",              lat: 43.5620, lon: -6.2230, altM:   50, kmFromSantiago: 278.1 },
+  { name: "Cadavedo",                   lat: 43.5440, lon: -6.4040, altM:  110, kmFromSantiago: 260.1 },
+  { name: "Luarca",                     lat: 43.5430, lon: -6.5360, altM:   10, kmFromSantiago: 245.1 },
+  { name: "La Caridad",                 lat: 43.5510, lon: -6.8260, altM:   80, kmFromSantiago: 215.1 },
+  { name: "Ribadeo",                    lat: 43.5350, lon: -7.0410, altM:   30, kmFromSantiago: 193.6 },
+  { name: "Lourenzá",                   lat: 43.4710, lon: -7.2980, altM:   90, kmFromSantiago: 165.1 },
+  { name: "Mondoñedo",                  lat: 43.4280, lon: -7.3620, altM:  140, kmFromSantiago: 157.1 },
+  { name: "Abadín",                     lat: 43.3650, lon: -7.4690, altM:  450, kmFromSantiago: 141.1 },
+  { name: "Vilalba",                    lat: 43.2980, lon: -7.6800, altM:  470, kmFromSantiago: 120.6 },
+  { name: "Baamonde",                   lat: 43.1760, lon: -7.7570, altM:  350, kmFromSantiago: 101.6 },
+  { name: "Miraz",                      lat: 43.1400, lon: -7.8680, altM:  480, kmFromSantiago: 86.6 },
+  { name: "Sobrado dos Monxes",         lat: 43.0380, lon: -8.0210, altM:  510, kmFromSantiago: 61.1 },
+  ...FRANCES.slice(FRANCES.findIndex(t => t.name === "Arzúa")),
+];
+
+export const NORTE_ROUTE: CaminoRoute = {
+  id: "norte",
+  name: "Camino del Norte",
+  direction: "toSantiago",
+  towns: NORTE,
+  aliases: {
+    "irun": "Irún",
+    "san sebastian": "Donostia-San Sebastián",
+    "donostia": "Donostia-San Sebastián",
+    "markina": "Markina-Xemein",
+    "guernica": "Gernika",
+    "castro": "Castro Urdiales",
+    "santillana": "Santillana del Mar",
+    "san vicente": "San Vicente de la Barquera",
+    "gijon": "Gijón",
+    "aviles": "Avilés",
+    "villalba": "Vilalba",
+    "sobrado": "Sobrado dos Monxes",
+  },
+  keywords: ["norte", "northern", "del norte", "camino del norte", "northern way"],
+};
@@ -0,0 +1,48 @@
+// lib/stages/portugues.ts
+import type { CaminoRoute, StageTown } from "@/lib/stages/types";
+
+/**
+ * Camino Portugués (central route) — Porto → Santiago (~247 km) via Ponte de Lima and Tui.
+ * Coordinates are town centres; altitudes rounded to 10 m.
+ */
+export const PORTUGUES: StageTown[] = [
+  { name: "Porto",                     lat: 41.1427, lon: -8.6110, altM:   80, kmFromSantiago: 246.7 },
+  { name: "Maia",                      lat: 41.2358, lon: -8.6199, altM:   90, kmFromSantiago: 234.7 },
+  { name: "Vilarinho",                 lat: 41.3136, lon: -8.6402, altM:   60, kmFromSantiago: 220.2 },
+  { name: "São Pedro de Rates",        lat: 41.4267, lon: -8.6533, altM:   70, kmFromSantiago: 205.7 },
+  { name: "Barcelos",                  lat: 41.5317, lon: -8.6186, altM:   40, kmFromSantiago: 190.2 },
+  { name: "Balugães",                  lat: 41.6090, lon: -8.6100, altM:  140, kmFromSantiago: 179.7 },
+  { name: "Ponte de Lima",             lat: 41.7672, lon: -8.5836, altM:   25, kmFromSantiago: 156.9 },
+  { name: "Rubiães",                   lat: 41.8950, lon: -8.6150, altM:  230, kmFromSantiago: 138.5 },
+  { name: "São Bento da Porta Aberta", lat: 41.9330, lon: -8.6270, altM:  190, kmFromSantiago: 134.0 },
+  { name: "Valença",                   lat: 42.0280, lon: -8.6420, altM:   60, kmFromSantiago: 119.0 },
+  { name: "Tui",                       lat: 42.0470, lon: -8.6450, altM:   60, kmFromSantiago: 117.0 },
+  { name: "O Porriño",                 lat: 42.1610, lon: -8.6200, altM:   30, kmFromSantiago: 100.4 },
+  { name: "Mos",                       lat: 42.1930, lon: -8.6190, altM:  280, kmFromSantiago: 94.4 },
+  { name: "Redondela",                 lat: 42.2830, lon: -8.6090, altM:   20, kmFromSantiago: 84.6 },
+  { name: "Arcade",                    lat: 42.3420, lon: -8.6100, altM:   10, kmFromSantiago: 77.0 },
+  { name: "Pontevedra",                lat: 42.4310, lon: -8.6440, altM:   20, kmFromSantiago: 65.0 },
+  { name: "San Amaro",                 lat: 42.4970, lon: -8.6200, altM:   70, kmFromSantiago: 56.8 },
+  { name: "Caldas de Reis",            lat: 42.6050, lon: -8.6420, altM:   20, kmFromSantiago: 43.6 },
+  { name: "Valga",                     lat: 42.6830, lon: -8.6390, altM:   30, kmFromSantiago: 34.6 },
+  { name: "Pontecesures",              lat: 42.7200, lon: -8.6530, altM:   10, kmFromSantiago: 26.4 },
+  { name: "Padrón",                    lat: 42.7380, lon: -8.6600, altM:   10, kmFromSantiago: 24.3 },
+  { name: "A Escravitude",             lat: 42.7840, lon: -8.6320, altM:  100, kmFromSantiago: 17.0 },
+  { name: "Milladoiro",                lat: 42.8450, lon: -8.5780, altM:  250, kmFromSantiago: 8.0 },
+  { name: "Santiago de Compostela",    lat: 42.8806, lon: -8.5446, altM:  260, kmFromSantiago: 0.0 },
+];
+
+export const PORTUGUES_ROUTE: CaminoRoute = {
+  id: "portugues",
+  name: "Camino Portugués",
+  direction: "toSantiago",
+  towns: PORTUGUES,
+  aliases: {
+    "oporto": "Porto",
+    "valenca": "Valença",
+    "tuy": "Tui",
+    "porrino": "O Porriño",
+    "caldas": "Caldas de Reis",
+  },
+  keywords: ["portugues", "portuguese", "camino portugues", "portuguese way"],
+};
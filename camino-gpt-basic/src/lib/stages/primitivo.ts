@@ -0,0 +1,36 @@
+// lib/stages/primitivo.ts
+import type { CaminoRoute, StageTown } from "@/lib/stages/types";
+import { FRANCES } from "@/lib/stages/frances";
+
+/**
+ * Camino Primitivo — Oviedo → Santiago (~314 km) over the Hospitales route,
+ * joining the Francés at Melide.
+ */
+export const PRIMITIVO: StageTown[] = [
+  { name: "Oviedo",               lat: 43.3620, lon: -5.8440, altM:  230, kmFromSantiago: 313.7 },
+  { name: "Grado",                lat: 43.3880, lon: -6.0730, altM:   50, kmFromSantiago: 288.7 },
+  { name: "Salas",                lat: 43.4100, lon: -6.2600, altM:  240, kmFromSantiago: 266.7 },
+  { name: "Tineo",                lat: 43.3370, lon: -6.4140, altM:  680, kmFromSantiago: 246.7 },
+  { name: "Pola de Allande",      lat: 43.2720, lon: -6.6110, altM:  520, kmFromSantiago: 218.7 },
+  { name: "Berducedo",            lat: 43.2090, lon: -6.7630, altM:  900, kmFromSantiago: 201.2 },
+  { name: "Grandas de Salime",    lat: 43.2170, lon: -6.8760, altM:  560, kmFromSantiago: 181.2 },
+  { name: "A Fonsagrada",         lat: 43.1250, lon: -7.0680, altM:  950, kmFromSantiago: 155.7 },
+  { name: "O Cádavo",             lat: 43.0440, lon: -7.1800, altM:  700, kmFromSantiago: 131.2 },
+  { name: "Lugo",                 lat: 43.0100, lon: -7.5560, altM:  465, kmFromSantiago: 100.7 },
+  { name: "San Romao da Retorta", lat: 42.9930, lon: -7.7440, altM:  580, kmFromSantiago: 81.2 },
+  ...FRANCES.slice(FRANCES.findIndex(t => t.name === "Melide")),
+];
+
+export const PRIMITIVO_ROUTE: CaminoRoute = {
+  id: "primitivo",
+  name: "Camino Primitivo",
+  direction: "toSantiago",
+  towns: PRIMITIVO,
+  aliases: {
+    "pola": "Pola de Allande",
+    "grandas": "Grandas de Salime",
+    "fonsagrada": "A Fonsagrada",
+    "cadavo": "O Cádavo",
+  },
+  keywords: ["primitivo", "primitive", "original way", "camino primitivo"],
+};
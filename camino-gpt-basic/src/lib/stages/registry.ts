@@ -0,0 +1,116 @@
+// lib/stages/registry.ts
+import { ROUTE_IDS, type CaminoRoute, type RouteId, type StageTown } from "@/lib/stages/types";
+import { FRANCES_ROUTE } from "@/lib/stages/frances";
+import { PORTUGUES_ROUTE } from "@/lib/stages/portugues";
+import { NORTE_ROUTE } from "@/lib/stages/norte";
+import { PRIMITIVO_ROUTE } from "@/lib/stages/primitivo";
+import { INGLES_ROUTE } from "@/lib/stages/ingles";
+import { FINISTERRE_ROUTE } from "@/lib/stages/finisterre";
+
+export const ROUTES: Record<RouteId, CaminoRoute> = {
+  frances: FRANCES_ROUTE,
+  portugues: PORTUGUES_ROUTE,
+  norte: NORTE_ROUTE,
+  primitivo: PRIMITIVO_ROUTE,
+  ingles: INGLES_ROUTE,
+  finisterre: FINISTERRE_ROUTE,
+};
+
+/** Lookup order when no route is given: the Francés wins shared towns (Melide, Arzúa…) */
+export const ROUTE_LIST: CaminoRoute[] = ROUTE_IDS.map(id => ROUTES[id]);
+
+export const DEFAULT_ROUTE_ID: RouteId = "frances";
+
+export function isRouteId(id: unknown): id is RouteId {
+  return typeof id === "string" && (ROUTE_IDS as readonly string[]).includes(id);
+}
+
+export function getRoute(id?: string): CaminoRoute {
+  return isRouteId(id) ? ROUTES[id] : ROUTES[DEFAULT_ROUTE_ID];
+}
+
+/** Lowercase, strip accents and collapse whitespace so "Arzua" matches "Arzúa" */
+export function normalizeTownName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Aliases shared by every route */
+const COMMON_ALIASES: Record<string, string> = {
+  "santiago": "Santiago de Compostela",
+  "compostela": "Santiago de Compostela",
+};
+
+function findOnRoute(route: CaminoRoute, name: string): StageTown | undefined {
+  const key = normalizeTownName(name);
+  const alias = route.aliases?.[key] ?? COMMON_ALIASES[key];
+  const target = alias ? normalizeTownName(alias) : key;
+  return route.towns.find(t => normalizeTownName(t.name) === target);
+}
+
+/** Find a stage town by (accent-insensitive) name or alias, on one route or on any */
+export function findTown(name: string, routeId?: string): StageTown | undefined {
+  if (isRouteId(routeId)) return findOnRoute(ROUTES[routeId], name);
+  for (const route of ROUTE_LIST) {
+    const town = findOnRoute(route, name);
+    if (town) return town;
+  }
+  return undefined;
+}
+
+/** Every town name and alias the registry knows (for scanning free text) */
+export function knownTownNames(): string[] {
+  const names = new Set<string>(Object.keys(COMMON_ALIASES));
+  for (const route of ROUTE_LIST) {
+    for (const t of route.towns) names.add(t.name);
+    for (const a of Object.keys(route.aliases ?? {})) names.add(a);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Pick the route for a request: an explicit id wins, otherwise the first route
+ * (in ROUTE_LIST order) that contains every named town.
+ */
+export function resolveRoute(townNames: Array<string | undefined>, preferred?: string): CaminoRoute {
+  if (isRouteId(preferred)) return ROUTES[preferred];
+  const named = townNames.filter((n): n is string => typeof n === "string" && n.trim().length > 0);
+  return ROUTE_LIST.find(r => named.every(n => findOnRoute(r, n))) ?? ROUTES[DEFAULT_ROUTE_ID];
+}
+
+/** Route named by keyword in free text ("Portuguese way", "del Norte"…), if any */
+export function routeFromText(text: string): RouteId | undefined {
+  const haystack = normalizeTownName(text);
+  return ROUTE_LIST.find(r => r.keywords.some(k => new RegExp(`(^|[^a-z])${k}(?![a-z])`).test(haystack)))?.id;
+}
+
+/** Calculate distance between two towns using their kmFromSantiago values */
+export function distanceBetweenTowns(fromTown: string, toTown: string, routeId?: string): number | null {
+  const route = resolveRoute([fromTown, toTown], routeId);
+  const from = findOnRoute(route, fromTown);
+  const to = findOnRoute(route, toTown);
+  
+  if (!from || !to || from.kmFromSantiago === undefined || to.kmFromSantiago === undefined) {
+    return null;
+  }
+  
+  return Math.abs(from.kmFromSantiago - to.kmFromSantiago);
+}
+
+/** Return inclusive slice of stage towns between start and end, or [] if not found */
+export function townsBetween(startName: string, endName: string, routeId?: string): StageTown[] {
+  const route = resolveRoute([startName, endName], routeId);
+  const idx = (n: string) => {
+    const town = findOnRoute(route, n);
+    return town ? route.towns.indexOf(town) : -1;
+  };
+  const i = idx(startName);
+  const j = idx(endName);
+  if (i === -1 || j === -1) return [];
+  if (i <= j) return route.towns.slice(i, j + 1);
+  return route.towns.slice(j, i + 1).reverse();
+}
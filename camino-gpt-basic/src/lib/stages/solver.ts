@@ -0,0 +1,179 @@
+// lib/stages/solver.ts
+import type { Itinerary } from "@/lib/leg";
+import { planBreaks, splitStages, type SplitOptions, type SplitPlan } from "@/lib/stages/splitter";
+
+/** User constraints the solver can relax, in the order we prefer to bend them */
+export const CONSTRAINT_KEYS = ["days", "maxKm", "minKm", "avoidEnding", "mustStop"] as const;
+export type ConstraintKey = typeof CONSTRAINT_KEYS[number];
+
+export type Conflict = { constraint: ConstraintKey; message: string };
+export type Alternative = { change: string; options: SplitOptions; itinerary: Itinerary };
+
+export type Infeasible = {
+  reason: string;            // what the splitter tripped on first
+  conflicts: Conflict[];     // constraints that make the request work when relaxed on their own
+  alternatives: Alternative[];
+};
+
+export type SolveResult =
+  | { ok: true; itinerary: Itinerary }
+  | { ok: false; infeasible: Infeasible };
+
+const MAX_ALTERNATIVES = 3;
+const KM_SEARCH_SPAN = 30; // how far to move min/max km/day looking for a fit
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function tryPlan(opts: SplitOptions): SplitPlan | null {
+  try {
+    return planBreaks(opts);
+  } catch {
+    return null;
+  }
+}
+
+function without(opts: SplitOptions, key: ConstraintKey): SplitOptions {
+  const next = { ...opts };
+  delete next[key];
+  return next;
+}
+
+const isSet = (opts: SplitOptions, key: ConstraintKey) => {
+  const v = opts[key];
+  return Array.isArray(v) ? v.length > 0 : v !== undefined;
+};
+
+const legKms = (p: SplitPlan) => p.breaks.slice(1).map((b, i) => p.km[b] - p.km[p.breaks[i]]);
+
+/** Plain-language reason a constraint is in the way, given the nearest options that fix it */
+function conflictMessage(key: ConstraintKey, opts: SplitOptions, fixed: SplitOptions): string {
+  const plan = tryPlan(fixed)!;
+  const total = round1(plan.km[plan.km.length - 1]);
+  const from = plan.towns[0].name;
+  const to = plan.towns[plan.towns.length - 1].name;
+  const dropped = (k: "avoidEnding" | "mustStop") => (opts[k] ?? []).filter(t => !(fixed[k] ?? []).includes(t)).join(", ");
+  switch (key) {
+    case "days": {
+      const avg = round1(total / opts.days!);
+      return avg > (opts.maxKm ?? Infinity) || avg < (opts.minKm ?? 0) || (opts.maxKm === undefined && opts.minKm === undefined)
+        ? `${from} → ${to} is ${total} km; ${opts.days} days would mean ${avg} km/day on average.`
+        : `No ${opts.days}-day plan from ${from} to ${to} (${total} km) meets your other limits.`;
+    }
+    case "maxKm":
+      return `No plan keeps every day at or under ${opts.maxKm} km; the longest day needs at least ${round1(Math.max(...legKms(plan)))} km.`;
+    case "minKm":
+      return `No plan keeps every day at ${opts.minKm} km or more; the shortest day can be at most ${round1(Math.min(...legKms(plan)))} km.`;
+    case "avoidEnding":
+      return dropped("avoidEnding") === to
+        ? `The walk ends in ${to}, so the last night is there.`
+        : `Not staying in ${dropped("avoidEnding")} leaves a stretch that does not fit your daily limits.`;
+    case "mustStop":
+      return `Sleeping in ${dropped("mustStop")} forces a day that breaks your other limits.`;
+  }
+}
+
+/** Nearest values of one constraint that make the request feasible (closest first) */
+function nearestFixes(key: ConstraintKey, opts: SplitOptions): Array<{ change: string; options: SplitOptions }> {
+  const fixes: Array<{ change: string; options: SplitOptions }> = [];
+  switch (key) {
+    case "days": {
+      const bare = tryPlan({ route: opts.route, start: opts.start, end: opts.end });
+      const limit = bare ? bare.towns.length - 1 : 0;
+      for (let delta = 1; delta < limit && fixes.length < 1; delta++) {
+        for (const days of [opts.days! + delta, opts.days! - delta]) {
+          if (days >= 1 && days <= limit && tryPlan({ ...opts, days })) {
+            fixes.push({ change: `Take ${days} days instead of ${opts.days}`, options: { ...opts, days } });
+            break;
+          }
+        }
+      }
+      break;
+    }
+    case "maxKm":
+      for (let maxKm = Math.floor(opts.maxKm!) + 1; maxKm <= opts.maxKm! + KM_SEARCH_SPAN; maxKm++) {
+        if (tryPlan({ ...opts, maxKm })) {
+          fixes.push({ change: `Allow up to ${maxKm} km/day`, options: { ...opts, maxKm } });
+          break;
+        }
+      }
+      break;
+    case "minKm":
+      for (let minKm = Math.ceil(opts.minKm!) - 1; minKm >= 0; minKm--) {
+        if (tryPlan({ ...opts, minKm })) {
+          fixes.push({ change: minKm ? `Accept days as short as ${minKm} km` : "Drop the minimum day length", options: { ...opts, minKm } });
+          break;
+        }
+      }
+      break;
+    case "avoidEnding":
+    case "mustStop":
+      for (const town of opts[key]!) {
+        const options = { ...opts, [key]: opts[key]!.filter(t => t !== town) };
+        if (tryPlan(options)) {
+          fixes.push({ change: key === "mustStop" ? `Skip the night in ${town}` : `Allow a night in ${town}`, options });
+        }
+      }
+      break;
+  }
+  return fixes;
+}
+
+/**
+ * Split the route under hard constraints (days, min/max km per day, must-stop and
+ * avoid-ending towns). When no plan exists, explain which constraints clash and
+ * offer the nearest feasible alternatives, each with its itinerary.
+ */
+export function solve(opts: SplitOptions): SolveResult {
+  let reason: string;
+  try {
+    return { ok: true, itinerary: splitStages(opts) };
+  } catch (e) {
+    reason = e instanceof Error ? e.message : String(e);
+  }
+
+  const present = CONSTRAINT_KEYS.filter(k => isSet(opts, k));
+  const conflicts: Conflict[] = [];
+  const fixes: Array<{ change: string; options: SplitOptions }> = [];
+
+  for (const key of present) {
+    const nearest = nearestFixes(key, opts);
+    if (!nearest.length) continue;
+    conflicts.push({ constraint: key, message: conflictMessage(key, opts, nearest[0].options) });
+    fixes.push(...nearest);
+  }
+
+  // Nothing gives on its own: fall back to dropping everything but start/end
+  if (!fixes.length && present.length) {
+    const bare = present.reduce(without, opts);
+    if (tryPlan(bare)) fixes.push({ change: "Drop the extra constraints", options: bare });
+  }
+
+  const alternatives: Alternative[] = [];
+  for (const fix of fixes.slice(0, MAX_ALTERNATIVES)) {
+    try {
+      alternatives.push({ ...fix, itinerary: splitStages(fix.options) });
+    } catch { /* infeasible after all (e.g. a split/rest day no longer applies) */ }
+  }
+
+  return { ok: false, infeasible: { reason, conflicts, alternatives } };
+}
+
+/** Chat reply for an infeasible request; mentions that the first alternative was drawn */
+export function explainInfeasible(infeasible: Infeasible): string {
+  const lines = ["I couldn't build that plan as asked."];
+  if (infeasible.conflicts.length) {
+    lines.push(...infeasible.conflicts.map(c => `• ${c.message}`));
+  } else {
+    lines.push(`• ${infeasible.reason}`);
+  }
+  if (infeasible.alternatives.length) {
+    lines.push("", "Closest plans that work:");
+    lines.push(...infeasible.alternatives.map((a, i) => {
+      const walking = a.itinerary.filter(l => !l.rest);
+      const longest = Math.max(...walking.map(l => l.km ?? 0));
+      return `${i + 1}. ${a.change} (${walking.length} walking days, longest ${round1(longest)} km)`;
+    }));
+    lines.push("", "I've drawn option 1; tell me if you prefer another.");
+  }
+  return lines.join("\n");
+}
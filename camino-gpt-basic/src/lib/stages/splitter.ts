@@ -0,0 +1,305 @@
+// lib/stages/splitter.ts
+import { ItinerarySchema } from "@/lib/schemas";
+import { elevationProfile } from "@/lib/dem";
+import { legLabel, withDates } from "@/lib/calendar";
+import { formatDistanceWithUnit } from "@/lib/utils";
+import type { Itinerary, Leg } from "@/lib/leg";
+import type { CaminoPreferences } from "@/lib/preferences";
+import { preferenceCosts, withTownNotes } from "@/lib/places/score";
+import { findTown, resolveRoute, townsBetween } from "@/lib/stages/registry";
+import { sliceTrail, trailPositionsKm } from "@/lib/stages/trail";
+import type { CaminoRoute, RouteId, StageTown } from "@/lib/stages/types";
+
+/** Intent the planner extracts from the user; everything else is computed here */
+export type SplitOptions = {
+  route?: RouteId;         // default: the first route that knows start and end
+  start?: string;          // default: the route's usual start (Sarria on the Francés)
+  end?: string;            // default: the route's last town
+  days?: number;           // walking days = number of legs
+  targetStageKm?: number;  // used to derive `days` when it is not given
+  mustStop?: string[];     // towns that must be an overnight stop
+  minKm?: number;          // shortest walking day allowed
+  maxKm?: number;          // longest walking day allowed
+  avoidEnding?: string[];  // towns not to spend the night in
+  restIn?: string[];       // overnight towns to stay an extra (zero-km) day in
+  splitDays?: number[];    // walking days (1-based, before rest days) to split in two
+  startDate?: string;      // ISO date of day 1; stamps `date` on every leg
+  preferences?: Partial<CaminoPreferences>; // ranks overnight towns by accommodation fit
+};
+
+export const DEFAULT_TARGET_STAGE_KM = 22;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Along-route position of each town, measured from the first one (trail length; else the km table) */
+function positionsKm(route: RouteId, towns: StageTown[]): number[] {
+  const along = trailPositionsKm(route, towns);
+  if (along) return along.map(km => Math.abs(km - along[0]));
+  const origin = towns[0].kmFromSantiago ?? 0;
+  return towns.map(t => Math.abs((t.kmFromSantiago ?? 0) - origin));
+}
+
+type Limits = { minKm: number; maxKm: number; avoid: Set<number>; townCost: number[] };
+
+/**
+ * Choose overnight towns so every leg is as close as possible to the average
+ * stage length (least squares) plus each town's preference cost, keeping
+ * must-stop towns as leg boundaries, legs within [minKm, maxKm] and no night
+ * in an avoided town.
+ * Returns the indices of the chosen towns, including start and end.
+ */
+function chooseBreakpoints(km: number[], days: number, anchors: Set<number>, limits: Limits): number[] | null {
+  const n = km.length;
+  const target = km[n - 1] / days;
+
+  // First anchor strictly after i: a leg starting at i may not skip past it
+  const nextAnchor: number[] = new Array(n).fill(n - 1);
+  for (let i = n - 2, next = n - 1; i >= 0; i--) {
+    nextAnchor[i] = next;
+    if (anchors.has(i)) next = i;
+  }
+
+  // cost[k][j]: best cost reaching town j after k legs
+  const cost = Array.from({ length: days + 1 }, () => new Array<number>(n).fill(Infinity));
+  const prev = Array.from({ length: days + 1 }, () => new Array<number>(n).fill(-1));
+  cost[0][0] = 0;
+
+  for (let k = 1; k <= days; k++) {
+    for (let i = 0; i < n - 1; i++) {
+      if (!Number.isFinite(cost[k - 1][i])) continue;
+      for (let j = i + 1; j <= nextAnchor[i]; j++) {
+        const leg = km[j] - km[i];
+        if (leg > limits.maxKm) break;
+        if (leg < limits.minKm || (limits.avoid.has(j) && j !== n - 1)) continue;
+        const c = cost[k - 1][i] + (leg - target) ** 2 + limits.townCost[j];
+        if (c < cost[k][j]) {
+          cost[k][j] = c;
+          prev[k][j] = i;
+        }
+      }
+    }
+  }
+
+  if (!Number.isFinite(cost[days][n - 1])) return null;
+
+  const path = [n - 1];
+  for (let k = days, j = n - 1; k > 0; k--) {
+    j = prev[k][j];
+    path.push(j);
+  }
+  return path.reverse();
+}
+
+/** One walking day between two towns, with along-trail km and climb */
+function makeLeg(routeId: RouteId, day: number, a: StageTown, b: StageTown, km: number, first: boolean): Leg {
+  const leg: Leg = {
+    day,
+    from: a.name,
+    to: b.name,
+    route: routeId,
+    km: round1(km),
+    toLat: b.lat,
+    toLon: b.lon,
+    ...(first ? { fromLat: a.lat, fromLon: a.lon } : {}),
+  };
+  const { ascentM, descentM, approximate } = elevationProfile(legCoordinates(leg));
+  return { ...leg, ascentM, descentM, ...(approximate ? { climbApprox: true } : {}) };
+}
+
+export const renumber = (legs: Leg[]) => legs.map((leg, i) => ({ ...leg, day: i + 1 }));
+
+/** A fresh walking day from one stage town to another (throws when the route doesn't link them) */
+export function legBetween(from: string, to: string, day: number, routeId?: RouteId, first = false): Leg {
+  const route = resolveRoute([from, to], routeId);
+  const towns = townsBetween(from, to, route.id);
+  if (towns.length < 2) throw new Error(`${from} and ${to} are not two towns on the ${route.name}`);
+  const km = positionsKm(route.id, towns);
+  return makeLeg(route.id, day, towns[0], towns[towns.length - 1], km[km.length - 1], first);
+}
+
+/** Split one walking day in two at the stage town closest to its midpoint */
+export function splitLeg(itinerary: Itinerary, day: number): Itinerary {
+  const idx = itinerary.findIndex(l => l.day === day);
+  const leg = itinerary[idx];
+  if (!leg || leg.rest) throw new Error(`Day ${day} is not a walking day`);
+
+  const route = resolveRoute([leg.from, leg.to], leg.route);
+  const towns = townsBetween(leg.from, leg.to, route.id);
+  if (towns.length < 3) throw new Error(`No stage town between ${leg.from} and ${leg.to} to split day ${day}`);
+
+  const km = positionsKm(route.id, towns);
+  const half = km[km.length - 1] / 2;
+  let mid = 1;
+  for (let i = 2; i < towns.length - 1; i++) if (Math.abs(km[i] - half) < Math.abs(km[mid] - half)) mid = i;
+
+  const first = makeLeg(route.id, day, towns[0], towns[mid], km[mid], idx === 0);
+  const second = makeLeg(route.id, day + 1, towns[mid], towns[towns.length - 1], km[km.length - 1] - km[mid], false);
+  return renumber([...itinerary.slice(0, idx), first, second, ...itinerary.slice(idx + 1)]);
+}
+
+/** Stay an extra night in `town`: a zero-km rest day after the day that arrives there */
+export function addRestDay(itinerary: Itinerary, town: string): Itinerary {
+  const target = findTown(town, itinerary[0]?.route)?.name ?? town;
+  const idx = itinerary.findIndex(l => !l.rest && l.to === target);
+  if (idx === -1) throw new Error(`${town} is not an overnight stop in this plan`);
+
+  const arrive = itinerary[idx];
+  const rest: Leg = {
+    day: arrive.day + 1,
+    from: arrive.to,
+    to: arrive.to,
+    route: arrive.route,
+    km: 0,
+    toLat: arrive.toLat,
+    toLon: arrive.toLon,
+    rest: true,
+  };
+  return renumber([...itinerary.slice(0, idx + 1), rest, ...itinerary.slice(idx + 1)]);
+}
+
+/** The route's usual start, unless the requested end comes before it */
+function defaultStartFor(route: CaminoRoute, end: string): string {
+  const first = route.towns[0].name;
+  const usual = route.defaultStart ? findTown(route.defaultStart, route.id) : undefined;
+  if (!usual) return first;
+  const endTown = findTown(end, route.id);
+  return endTown && route.towns.indexOf(endTown) <= route.towns.indexOf(usual) ? first : usual.name;
+}
+
+export type SplitPlan = { route: CaminoRoute; towns: StageTown[]; km: number[]; breaks: number[] };
+
+/**
+ * Pick the overnight towns without building legs (cheap enough to call in a search).
+ * Throws when the towns are unknown or the constraints cannot be met.
+ */
+export function planBreaks(opts: SplitOptions = {}): SplitPlan {
+  const route = resolveRoute([opts.start, opts.end], opts.route);
+  const end = opts.end ?? route.towns[route.towns.length - 1].name;
+  const start = opts.start ?? defaultStartFor(route, end);
+
+  const towns = townsBetween(start, end, route.id);
+  if (towns.length < 2) {
+    throw new Error(`No known ${route.name} stages between "${start}" and "${end}"`);
+  }
+
+  const km = positionsKm(route.id, towns);
+  const totalKm = km[km.length - 1];
+
+  const anchors = new Set<number>();
+  for (const name of opts.mustStop ?? []) {
+    const town = findTown(name, route.id);
+    const idx = town ? towns.indexOf(town) : -1;
+    if (idx === -1) throw new Error(`"${name}" is not on the route from ${towns[0].name} to ${towns[towns.length - 1].name}`);
+    if (idx > 0 && idx < towns.length - 1) anchors.add(idx);
+  }
+
+  const avoid = new Set<number>();
+  for (const name of opts.avoidEnding ?? []) {
+    const town = findTown(name, route.id);
+    const idx = town ? towns.indexOf(town) : -1;
+    if (idx === towns.length - 1) throw new Error(`The plan ends in ${town!.name}, which you asked not to stay in`);
+    if (anchors.has(idx)) throw new Error(`${town!.name} is both a must-stop and a town to avoid`);
+    if (idx > 0) avoid.add(idx);
+  }
+
+  const minKm = opts.minKm ?? 0;
+  const maxKm = opts.maxKm ?? Infinity;
+  if (minKm > maxKm) throw new Error(`Minimum ${minKm} km/day is above the maximum ${maxKm} km/day`);
+
+  if (opts.days !== undefined && opts.days < anchors.size + 1) {
+    throw new Error(`${anchors.size} must-stop towns need at least ${anchors.size + 1} days, not ${opts.days}`);
+  }
+  const target = opts.targetStageKm && opts.targetStageKm > 0 ? opts.targetStageKm : DEFAULT_TARGET_STAGE_KM;
+  const derived = Math.min(
+    Math.max(Math.round(totalKm / target), Math.ceil(totalKm / maxKm)),
+    minKm > 0 ? Math.floor(totalKm / minKm) : Infinity
+  );
+  const days = Math.max(opts.days ?? derived, anchors.size + 1, 1);
+  if (days > towns.length - 1) {
+    throw new Error(`Cannot split ${round1(totalKm)} km into ${days} days: only ${towns.length - 1} legs between known towns`);
+  }
+
+  const townCost = opts.preferences
+    ? preferenceCosts(towns.map(t => t.name), opts.preferences)
+    : towns.map(() => 0);
+  const breaks = chooseBreakpoints(km, days, anchors, { minKm, maxKm, avoid, townCost });
+  if (!breaks) {
+    const limits = [
+      Number.isFinite(maxKm) ? `at most ${maxKm} km` : "",
+      minKm > 0 ? `at least ${minKm} km` : "",
+    ].filter(Boolean).join(" and ");
+    throw new Error(
+      `No ${days}-day split of ${round1(totalKm)} km${limits ? ` with days of ${limits}` : ""} keeps every must-stop and avoids every excluded town`
+    );
+  }
+
+  return { route, towns, km, breaks };
+}
+
+/**
+ * Deterministic stage splitter over the bundled stage towns.
+ * Throws when the towns are unknown or the constraints cannot be met.
+ */
+export function splitStages(opts: SplitOptions = {}): Itinerary {
+  const { route, towns, km, breaks } = planBreaks(opts);
+
+  let legs: Leg[] = [];
+  for (let d = 1; d < breaks.length; d++) {
+    const [i, j] = [breaks[d - 1], breaks[d]];
+    legs.push(makeLeg(route.id, d, towns[i], towns[j], km[j] - km[i], d === 1));
+  }
+
+  // Split later days first so earlier day numbers stay valid
+  for (const day of [...new Set(opts.splitDays ?? [])].sort((a, b) => b - a)) legs = splitLeg(legs, day);
+  for (const town of opts.restIn ?? []) legs = addRestDay(legs, town);
+  legs = withTownNotes(legs, opts.preferences, opts.mustStop);
+
+  return ItinerarySchema.parse(withDates(legs, opts.startDate));
+}
+
+/** Geometry of one day: the bundled trail slice, else a line through the stage towns */
+export function legCoordinates(leg: Leg): number[][] {
+  const route = resolveRoute([leg.from, leg.to], leg.route).id;
+  return sliceTrail(route, leg.from, leg.to)?.coordinates
+    ?? townsBetween(leg.from, leg.to, route).map(t => [t.lon, t.lat]);
+}
+
+/** One LineString per day along the trail (Leaflet styles by `day`) */
+export function itineraryToGeojson(itinerary: Itinerary) {
+  return {
+    type: "FeatureCollection" as const,
+    features: itinerary.filter(leg => !leg.rest).map(leg => ({
+      type: "Feature" as const,
+      properties: { day: leg.day, from: leg.from, to: leg.to, distance: leg.km },
+      geometry: {
+        type: "LineString" as const,
+        coordinates: legCoordinates(leg),
+      },
+    })),
+  };
+}
+
+export type ItineraryMarker = { lat: number; lon: number; title?: string; subtitle?: string };
+
+/** The start and every overnight town as one replacing drawMarkers action (a rest day folds into its town) */
+export function itineraryToMarkers(itinerary: Itinerary): { type: "drawMarkers"; replace: true; markers: ItineraryMarker[] } {
+  const markers: ItineraryMarker[] = [];
+  const first = itinerary[0];
+  if (first && first.fromLat !== undefined && first.fromLon !== undefined) {
+    markers.push({ lat: first.fromLat, lon: first.fromLon, title: first.from, subtitle: "Day 0 · Start" });
+  }
+  for (const leg of itinerary) {
+    const holiday = leg.holiday ? ` · ${leg.holiday}` : "";
+    if (leg.rest && markers.length) {
+      markers[markers.length - 1].subtitle += ` · rest ${legLabel(leg)}${holiday}`;
+      continue;
+    }
+    markers.push({
+      lat: leg.toLat,
+      lon: leg.toLon,
+      title: leg.to,
+      subtitle: `${legLabel(leg)}${leg.km ? ` · ${formatDistanceWithUnit(leg.km, "")}` : ""}${holiday}`,
+    });
+  }
+  return { type: "drawMarkers", replace: true, markers };
+}
@@ -0,0 +1,133 @@
+// lib/stages/trail.ts
+import { haversineKm, type Point } from "@/lib/geo";
+import { findTown } from "@/lib/stages/registry";
+import type { RouteId, StageTown } from "@/lib/stages/types";
+import francesTrail from "@/lib/stages/trails/frances.json";
+import portuguesTrail from "@/lib/stages/trails/portugues.json";
+import norteTrail from "@/lib/stages/trails/norte.json";
+import primitivoTrail from "@/lib/stages/trails/primitivo.json";
+import inglesTrail from "@/lib/stages/trails/ingles.json";
+import finisterreTrail from "@/lib/stages/trails/finisterre.json";
+
+/** [lon, lat] or [lon, lat, elevation m], like GeoJSON positions */
+export type TrailCoord = number[];
+
+/**
+ * Bundled trail polyline for one route. The shipped files are seeded from the
+ * stage-town waypoints (`source`), so they carry the guidebook distance at each
+ * vertex in `measuresKm`; a denser track (e.g. converted from GPX) can drop the
+ * measures and its length is then computed along the geometry.
+ */
+export type Trail = {
+  id: RouteId;
+  source: string;
+  coordinates: TrailCoord[];
+  measuresKm?: number[];   // along-track km at each vertex, from the first
+};
+
+const TRAILS = {
+  frances: francesTrail,
+  portugues: portuguesTrail,
+  norte: norteTrail,
+  primitivo: primitivoTrail,
+  ingles: inglesTrail,
+  finisterre: finisterreTrail,
+} as Record<RouteId, Trail>;
+
+const at = (c: TrailCoord) => ({ lon: c[0], lat: c[1] });
+
+/** Cumulative along-track km at each vertex: bundled measures, else haversine (once per route) */
+const measures = new Map<RouteId, number[]>();
+function measureOf(id: RouteId): number[] {
+  let m = measures.get(id);
+  if (!m) {
+    const { coordinates: coords, measuresKm } = TRAILS[id];
+    if (measuresKm?.length === coords.length) {
+      m = measuresKm;
+    } else {
+      m = [0];
+      for (let i = 1; i < coords.length; i++) m.push(m[i - 1] + haversineKm(at(coords[i - 1]), at(coords[i])));
+    }
+    measures.set(id, m);
+  }
+  return m;
+}
+
+export function getTrail(id: RouteId): Trail | undefined {
+  return TRAILS[id]?.coordinates.length >= 2 ? TRAILS[id] : undefined;
+}
+
+/** Closest point on the trail to `p`: its along-track km and offset from the trail (km) */
+export function nearestOnTrail(id: RouteId, p: Point): { km: number; offKm: number } {
+  const coords = TRAILS[id].coordinates;
+  const m = measureOf(id);
+  const kx = Math.cos((p.lat * Math.PI) / 180); // local equirectangular scale
+  let best = { d2: Infinity, km: 0 };
+
+  for (let i = 1; i < coords.length; i++) {
+    const [ax, ay] = [coords[i - 1][0] * kx, coords[i - 1][1]];
+    const [bx, by] = [coords[i][0] * kx, coords[i][1]];
+    const [px, py] = [p.lon * kx, p.lat];
+    const len2 = (bx - ax) ** 2 + (by - ay) ** 2;
+    const t = len2 ? Math.max(0, Math.min(1, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / len2)) : 0;
+    const d2 = (ax + t * (bx - ax) - px) ** 2 + (ay + t * (by - ay) - py) ** 2;
+    if (d2 < best.d2) best = { d2, km: m[i - 1] + t * (m[i] - m[i - 1]) };
+  }
+  return { km: best.km, offKm: Math.sqrt(best.d2) * 111.2 };
+}
+
+const locate = (id: RouteId, town: StageTown) => nearestOnTrail(id, town).km;
+
+/** Along-track km of each town from the trail start, or null without a trail */
+export function trailPositionsKm(id: RouteId, towns: StageTown[]): number[] | null {
+  return getTrail(id) ? towns.map(t => locate(id, t)) : null;
+}
+
+/** Point at along-track km `km`, interpolated between vertices */
+function pointAt(id: RouteId, km: number): TrailCoord {
+  const coords = TRAILS[id].coordinates;
+  const m = measureOf(id);
+  const i = Math.max(1, m.findIndex(v => v >= km));
+  const span = m[i] - m[i - 1];
+  const t = span ? (km - m[i - 1]) / span : 0;
+  const [a, b] = [coords[i - 1], coords[i]];
+  const c: TrailCoord = [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+  if (a[2] !== undefined && b[2] !== undefined) c.push(a[2] + t * (b[2] - a[2]));
+  return c;
+}
+
+/** Elevation interpolated along the closest bundled trail within `maxOffKm`, or null */
+export function trailElevationAt(p: Point, maxOffKm = 2): number | null {
+  let best: { off: number; elev: number } | null = null;
+  for (const id of Object.keys(TRAILS) as RouteId[]) {
+    if (!getTrail(id)) continue;
+    const { km, offKm } = nearestOnTrail(id, p);
+    const elev = pointAt(id, km)[2];
+    if (offKm <= maxOffKm && elev !== undefined && (!best || offKm < best.off)) best = { off: offKm, elev };
+  }
+  return best?.elev ?? null;
+}
+
+/**
+ * The trail between two towns of a route, in walking order from `fromName`,
+ * with its along-track length. Undefined when the route has no trail or a
+ * town is unknown.
+ */
+export function sliceTrail(id: RouteId, fromName: string, toName: string): { coordinates: TrailCoord[]; km: number } | undefined {
+  const from = findTown(fromName, id);
+  const to = findTown(toName, id);
+  if (!getTrail(id) || !from || !to) return undefined;
+
+  const m = measureOf(id);
+  const [a, b] = [locate(id, from), locate(id, to)];
+  const [lo, hi] = a <= b ? [a, b] : [b, a];
+
+  const inner = TRAILS[id].coordinates.filter((_, i) => m[i] > lo && m[i] < hi);
+  const coordinates = [pointAt(id, lo), ...inner, pointAt(id, hi)];
+  return { coordinates: a <= b ? coordinates : coordinates.reverse(), km: hi - lo };
+}
+
+/** Along-track km between two towns of a route, or null when it cannot be measured */
+export function alongTrackKm(id: RouteId, fromName: string, toName: string): number | null {
+  return sliceTrail(id, fromName, toName)?.km ?? null;
+}
@@ -0,0 +1,23 @@
+// lib/stages/types.ts
+
+/** Route ids (single source of truth; the RouteId union is derived from it) */
+export const ROUTE_IDS = ["frances", "portugues", "norte", "primitivo", "ingles", "finisterre"] as const;
+export type RouteId = typeof ROUTE_IDS[number];
+
+export type StageTown = { 
+  name: string; 
+  lat: number; 
+  lon: number; 
+  altM?: number;          // Altitude of the town centre (m)
+  kmFromSantiago?: number; // Distance from Santiago along the Camino (reverse direction)
+};
+
+export type CaminoRoute = {
+  id: RouteId;
+  name: string;                      // e.g. "Camino Francés"
+  direction: "toSantiago" | "fromSantiago";
+  towns: StageTown[];                // in walking order
+  defaultStart?: string;             // used when the user names no start (e.g. Sarria)
+  aliases?: Record<string, string>;  // normalized alias → town name
+  keywords: string[];                // normalized words that name the route in a request
+};
@@ -5,17 +5,49 @@ import {
   RagSearchInput, RagSearchOutput,
   ElevationProfileInput, ElevationProfileOutput,
   ExportGpxInput, ExportGpxOutput,
-  PlacesSearchInput,
+  ExportIcsInput, ExportIcsOutput,
+  ItineraryEditInput, ItineraryEditOutput,
+  PlacesSearchInput, PlacesSearchOutput,
+  ServicesAlongInput, ServicesAlongOutput,
+  LodgingHoldInput, LodgingConfirmInput, LodgingCancelInput, LodgingOutput,
 } from "@/lib/schemas";
 import { geocodeOnline, lineStringBetween } from "@/lib/geo"; // online geocoder
-import { townsBetween, FRANCES_LAST100, distanceBetweenTowns } from "@/lib/stages/frances";
+import { townsBetween, findTown, getRoute, resolveRoute, isRouteId, ROUTE_LIST, distanceBetweenTowns } from "@/lib/stages/registry";
+import { alongTrackKm, sliceTrail } from "@/lib/stages/trail";
+import { elevationProfile } from "@/lib/dem";
+import { isIsoDate, withDates } from "@/lib/calendar";
+import type { RouteId } from "@/lib/stages/types";
+import { itineraryToGeojson } from "@/lib/stages/splitter";
+import { solve, type Infeasible } from "@/lib/stages/solver";
+import { applyEdits } from "@/lib/stages/edit";
+import { placeMarker, searchPlaces } from "@/lib/places/search";
+import { serviceMarker, servicesAlong } from "@/lib/places/services";
+import { getBookingProvider } from "@/lib/booking/provider";
+import { cancelBeds, confirmBeds, holdBeds } from "@/lib/booking/lodging";
+import { ragSearch } from "@/lib/rag";
+import { gpxFilename, itineraryToGpx, writeGpx } from "@/lib/export/gpx";
+import { icsFilename, itineraryToIcs } from "@/lib/export/ics";
+import { slugify } from "@/lib/utils";
 import type { Itinerary, Leg } from "@/lib/leg";
+import type { CaminoPreferences } from "@/lib/preferences";
 
 export type ToolContext = {
   // supabase?: SupabaseClient;
   // fetcher?: typeof fetch;
+  preferences?: Partial<CaminoPreferences>;
+  /** Route chosen explicitly by the client; beats whatever the planner inferred */
+  route?: RouteId;
+  /** ISO date of day 1 from the request (the planner's `startDate` arg wins) */
+  startDate?: string;
+  /** Current itinerary: from an earlier step of this plan, else the one the client is showing */
+  itinerary?: Itinerary;
 };
 
+function requireItinerary(ctx: ToolContext): Itinerary {
+  if (!ctx.itinerary?.length) throw new Error("No itinerary yet: plan the route first");
+  return ctx.itinerary;
+}
+
 
 type ToolDef<I extends z.ZodTypeAny, O extends z.ZodTypeAny | undefined = undefined> = {
   name: string;
@@ -39,38 +71,21 @@ function toDataUrl(content: string, mime = "application/gpx+xml"): string {
   return `data:${mime};base64,${b64}`;
 }
 
-async function lookupTownCoords(name: string): Promise<{ lat: number; lon: number } | null> {
+async function lookupTownCoords(name: string, routeId?: string): Promise<{ lat: number; lon: number } | null> {
   const cleanName = name.toLowerCase().trim();
   
-  // First try exact match
-  let town = FRANCES_LAST100.find(t => 
-    t.name.toLowerCase() === cleanName
-  );
+  // Exact (accent-insensitive) match or known alias, on the requested route first
+  let town = findTown(name, routeId) ?? findTown(name);
   
   // Then try partial matches (both directions)
   if (!town) {
-    town = FRANCES_LAST100.find(t => 
+    const candidates = [getRoute(routeId), ...ROUTE_LIST].flatMap(r => r.towns);
+    town = candidates.find(t => 
       t.name.toLowerCase().includes(cleanName) || 
       cleanName.includes(t.name.toLowerCase())
     );
   }
   
-  // Handle common variations
-  if (!town) {
-    const variations: Record<string, string> = {
-      'santiago': 'Santiago de Compostela',
-      'o pedrouzo': 'O Pedrouzo',
-      'pedrouzo': 'O Pedrouzo',
-      'palas': 'Palas de Rei',
-      'portomarin': 'Portomarín',
-    };
-    
-    const variation = variations[cleanName];
-    if (variation) {
-      town = FRANCES_LAST100.find(t => t.name === variation);
-    }
-  }
-  
   if (town) {
     return { lat: town.lat, lon: town.lon };
   }
@@ -79,6 +94,35 @@ async function lookupTownCoords(name: string): Promise<{ lat: number; lon: numbe
   return await geocodeOnline(name);
 }
 
+/**
+ * Planner intent → itinerary via the constraint solver. When the request is infeasible
+ * the nearest alternative is used and the diagnosis is returned alongside it.
+ * Legacy `stages` arrays are reduced to intent: their day count and overnight towns.
+ */
+function splitFromIntent(
+  args: any, route: RouteId, ctx: ToolContext, startName?: string, endName?: string
+): { itinerary?: Itinerary; infeasible?: Infeasible } {
+  const legacyStages: any[] = Array.isArray(args?.stages) ? args.stages : [];
+  const mustStop: string[] = Array.isArray(args?.mustStop)
+    ? args.mustStop.filter((s: unknown) => typeof s === "string")
+    : legacyStages.slice(0, -1).map((st) => st?.to).filter((s: unknown) => typeof s === "string");
+  const days = typeof args?.days === "number" ? args.days : legacyStages.length || undefined;
+  const targetStageKm = typeof args?.targetStageKm === "number" ? args.targetStageKm : ctx.preferences?.targetStageKm;
+  const restIn: string[] = Array.isArray(args?.restIn) ? args.restIn.filter((s: unknown) => typeof s === "string") : [];
+  const splitDays: number[] = Array.isArray(args?.splitDays) ? args.splitDays.filter(Number.isInteger) : [];
+  const startDate = [args?.startDate, ctx.startDate, ctx.preferences?.startDate].find(isIsoDate);
+  const num = (v: unknown) => (typeof v === "number" && v > 0 ? v : undefined);
+  const avoidEnding: string[] = Array.isArray(args?.avoidEnding) ? args.avoidEnding.filter((s: unknown) => typeof s === "string") : [];
+
+  const result = solve({
+    route, start: startName, end: endName, days, targetStageKm, mustStop,
+    minKm: num(args?.minKm), maxKm: num(args?.maxKm), avoidEnding, restIn, splitDays, startDate,
+    preferences: ctx.preferences,
+  });
+  if (result.ok) return { itinerary: result.itinerary };
+  return { itinerary: result.infeasible.alternatives[0]?.itinerary, infeasible: result.infeasible };
+}
+
 export const toolRegistry = {
   "map.focus": {
     name: "map.focus",
@@ -106,12 +150,14 @@ export const toolRegistry = {
 
     /**
      * Coercion rules (loose → strict):
+     * - Preferred: treat start/end/days/targetStageKm/mustStop as intent and let the
+     *   stage splitter build the itinerary and per-day geometry.
      * - If meta.startName/endName or start/end strings are present, derive a LineString
      *   from known stage towns (preferred) or a straight line (fallback).
      * - If planner sent `stages` (either {stage:"A to B", distance?} or {from,to,distanceKm?}),
      *   normalize them and store under `geojson.properties.itinerary` so Zod preserves it.
      */
-    coerceAsync: async (plannerInput: any) => {
+    coerceAsync: async (plannerInput: any, ctx: ToolContext) => {
       console.log(`[debug] map.drawRoute - Raw input from planner:`, JSON.stringify(plannerInput, null, 2));
       const processedArgs: any = { ...plannerInput };
 
@@ -121,14 +167,24 @@ export const toolRegistry = {
       const endName: string | undefined =
         processedArgs?.meta?.endName ?? (typeof processedArgs?.end === "string" ? processedArgs.end : undefined);
 
-      // If names exist, ensure meta carries them
-      if (startName || endName) {
-        processedArgs.meta = { ...(processedArgs.meta ?? {}), startName, endName };
-      }
+      // Route: explicit client choice > planner's pick > first route that knows both towns
+      const route = resolveRoute(
+        [startName, endName],
+        ctx.route ?? (isRouteId(processedArgs?.route) ? processedArgs.route : undefined)
+      ).id;
+
+      // Ensure meta carries the names and route
+      processedArgs.meta = { ...(processedArgs.meta ?? {}), startName, endName, route };
 
       // Normalize stages -> itinerary (we DO NOT put this at the top level; stash under geojson.properties)
-      let itinerary: Partial<Leg>[] | undefined;
-      if (Array.isArray(processedArgs?.stages) && processedArgs.stages.length) {
+      const solved = splitFromIntent(processedArgs, route, ctx, startName, endName);
+      let itinerary: Partial<Leg>[] | undefined = solved.itinerary;
+      if (itinerary && !processedArgs?.geojson) {
+        processedArgs.geojson = itineraryToGeojson(itinerary as Itinerary);
+      }
+
+      // Legacy: planner-computed stages for towns the splitter does not know
+      if (!itinerary && !solved.infeasible && Array.isArray(processedArgs?.stages) && processedArgs.stages.length) {
         itinerary = processedArgs.stages.map((stage: any, stageIndex: number) => {
           let fromTown: string;
           let toTown: string;
@@ -151,14 +207,17 @@ export const toolRegistry = {
             toTown = stageIndex === processedArgs.stages.length - 1 ? (endName || "End") : "Unknown";
           }
 
-          // Calculate distance - try exact calculation first, then use provided value
-          let distanceKm = distanceBetweenTowns(fromTown, toTown);
+          // Calculate distance - along the trail, then the km table, then the planner's value
+          let distanceKm = alongTrackKm(route, fromTown, toTown) ?? distanceBetweenTowns(fromTown, toTown, route);
           if (!distanceKm) {
             distanceKm = typeof stage?.distanceKm === "number" ? stage.distanceKm :
                  typeof stage?.distance === "number" ? stage.distance : undefined;
           }
 
-          return { day: stageIndex + 1, from: fromTown, to: toTown, km: distanceKm };
+          const slice = sliceTrail(route, fromTown, toTown);
+          const climb = slice ? elevationProfile(slice.coordinates) : undefined;
+
+          return { day: stageIndex + 1, from: fromTown, to: toTown, route, km: distanceKm, ascentM: climb?.ascentM, descentM: climb?.descentM, climbApprox: climb?.approximate || undefined };
         });
       }
 
@@ -170,8 +229,18 @@ export const toolRegistry = {
           
           for (let legIndex = 0; legIndex < itinerary.length; legIndex++) {
             const leg = itinerary[legIndex];
-            const startCoords = await lookupTownCoords(leg.from || "");
-            const endCoords = await lookupTownCoords(leg.to || "");
+            const slice = sliceTrail(route, leg.from || "", leg.to || "");
+            if (slice) {
+              routeFeatures.push({
+                type: "Feature",
+                properties: { day: leg.day, from: leg.from, to: leg.to, distance: leg.km },
+                geometry: { type: "LineString", coordinates: slice.coordinates },
+              });
+              continue;
+            }
+
+            const startCoords = await lookupTownCoords(leg.from || "", route);
+            const endCoords = await lookupTownCoords(leg.to || "", route);
             
             if (startCoords && endCoords) {
               routeFeatures.push({
@@ -200,8 +269,11 @@ export const toolRegistry = {
         
         // Fallback: single line from start to end
         if (!processedArgs.geojson && startName && endName) {
-          const routeSegment = townsBetween(String(startName), String(endName));
-          if (Array.isArray(routeSegment) && routeSegment.length >= 2) {
+          const trail = sliceTrail(route, String(startName), String(endName));
+          const routeSegment = townsBetween(String(startName), String(endName), route);
+          if (trail) {
+            processedArgs.geojson = { type: "LineString", coordinates: trail.coordinates };
+          } else if (Array.isArray(routeSegment) && routeSegment.length >= 2) {
             processedArgs.geojson = {
               type: "LineString",
               coordinates: routeSegment.map(town => [town.lon, town.lat]),
@@ -220,17 +292,25 @@ export const toolRegistry = {
         return processedArgs;
       }
 
-      // Attach itinerary under geojson.properties so Zod keeps it (geojson is .passthrough())
-      if (itinerary?.length) {
+      // Attach itinerary (and any solver diagnosis) under geojson.properties so Zod keeps it (geojson is .passthrough())
+      if (itinerary?.length || solved.infeasible) {
         const geojsonData: any = processedArgs.geojson;
-        geojsonData.properties = { ...(geojsonData.properties ?? {}), itinerary };
+        geojsonData.properties = {
+          ...(geojsonData.properties ?? {}),
+          ...(itinerary?.length ? { itinerary } : {}),
+          ...(solved.infeasible ? { infeasible: solved.infeasible } : {}),
+        };
       }
 
       return processedArgs;
     },
 
     run: async (args) => {
-      const actions: any[] = [{ type: "drawRoute", geojson: args.geojson }];
+      // The solver's diagnosis rides along under geojson.properties; keep it off the map payload
+      const stashed = args.geojson.properties as { infeasible?: Infeasible } | undefined;
+      const { infeasible, ...properties } = stashed ?? {};
+      const geojson = stashed ? { ...args.geojson, properties } : args.geojson;
+      const actions: any[] = [{ type: "drawRoute", geojson }];
 
       // Optional start/end markers based on meta or coordinate endpoints
       try {
@@ -265,8 +345,8 @@ export const toolRegistry = {
             day: 1, 
             from: startName || "Start", 
             to: endName || "End", 
-            lat: 0, 
-            lon: 0 
+            toLat: 0, 
+            toLon: 0 
           }];
           console.log(`[debug] map.drawRoute - Created fallback itinerary:`, itinerary);
         }
@@ -276,6 +356,7 @@ export const toolRegistry = {
 
       // Add coordinates to itinerary - prefer town lookups over polyline sampling
       if (itinerary) {
+        const routeId = args.meta?.route;
         const coords = (args.geojson as any)?.coordinates;
         
         // Try to resolve coordinates from town names first
@@ -286,7 +367,7 @@ export const toolRegistry = {
           
           // For the first leg, also resolve starting coordinates
           if (i === 0 && day.from && (!day.fromLat || !day.fromLon)) {
-            const fromCoords = await lookupTownCoords(day.from);
+            const fromCoords = await lookupTownCoords(day.from, day.route ?? routeId);
             if (fromCoords) {
               resolvedDay.fromLat = fromCoords.lat;
               resolvedDay.fromLon = fromCoords.lon;
@@ -301,7 +382,7 @@ export const toolRegistry = {
           
           // Try to resolve coordinates from the 'to' town name
           if (day.to) {
-            const townCoords = await lookupTownCoords(day.to);
+            const townCoords = await lookupTownCoords(day.to, day.route ?? routeId);
             if (townCoords) {
               resolvedDay.toLat = townCoords.lat;
               resolvedDay.toLon = townCoords.lon;
@@ -333,7 +414,7 @@ export const toolRegistry = {
       }
 
       console.log(`[debug] map.drawRoute - Final itinerary being returned:`, itinerary?.map(leg => ({ day: leg.day, from: leg.from, to: leg.to, toLat: leg.toLat, toLon: leg.toLon })));
-      return { uiActions: actions, itinerary };
+      return { uiActions: actions, itinerary, data: infeasible ? { infeasible } : undefined };
     },
   } satisfies ToolDef<typeof DrawRouteInput>,
 
@@ -347,7 +428,7 @@ export const toolRegistry = {
         const resolvedMarkers = [];
         for (const location of plannerInput.locations) {
           if (typeof location.name === "string") {
-            const townCoords = await lookupTownCoords(location.name);
+            const townCoords = await lookupTownCoords(location.name, ctx.route);
             if (townCoords) {
               resolvedMarkers.push({
                 toLat: townCoords.lat,
@@ -362,58 +443,158 @@ export const toolRegistry = {
       }
       return plannerInput;
     },
-    run: async (args) => ({ uiActions: [{ type: "drawMarkers", markers: args.markers }] }),
+    run: async (args) => ({ uiActions: [{ type: "drawMarkers", markers: args.markers, layer: args.layer }] }),
   } satisfies ToolDef<typeof AddMarkersInput>,
 
   "rag.search": {
     name: "rag.search",
     input: RagSearchInput,
     output: RagSearchOutput,
-    run: async () => ({ data: [] }),
+    coerceAsync: async (raw: unknown) => {
+      // Planners sometimes reuse places.search's "q"
+      const a = raw as { q?: unknown; query?: unknown } | null;
+      return a && typeof a.q === "string" && !a.query ? { ...a, query: a.q } : raw;
+    },
+    run: async (args) => ({ data: await ragSearch(args.query, args.topK) }),
   } satisfies ToolDef<typeof RagSearchInput, typeof RagSearchOutput>,
 
   "elevation.profile": {
     name: "elevation.profile",
     input: ElevationProfileInput,
     output: ElevationProfileOutput,
-    run: async (args) => {
-      const out = args.coords.map((_, i) => ({ distKm: i * 1.0, elevM: 0 }));
-      return { data: out };
-    },
+    run: async (args) => ({ data: elevationProfile(args.coords) }),
   } satisfies ToolDef<typeof ElevationProfileInput, typeof ElevationProfileOutput>,
 
   "export.gpx": {
     name: "export.gpx",
     input: ExportGpxInput,
     output: ExportGpxOutput,
-    run: async (args) => {
-      const gpx = `<?xml version="1.0" encoding="UTF-8"?>
-<gpx version="1.1" creator="Camino GPT">
-  <trk><name>${args.name}</name>
-    ${args.segments
-      .map(
-        (seg) => `<trkseg>
-${seg.map(([lon, lat]) => `      <trkpt lon="${lon}" lat="${lat}"></trkpt>`).join("\n")}
-    </trkseg>`
-      )
-      .join("\n")}
-  </trk>
-</gpx>`;
-      return { data: { url: toDataUrl(gpx) } };
+    run: async (args, ctx) => {
+      const gpx = args.segments?.length
+        ? writeGpx({
+            name: args.name ?? "Camino track",
+            tracks: args.segments.map((points, i) => ({ name: `${args.name ?? "Track"} ${i + 1}`, points })),
+          })
+        : itineraryToGpx(requireItinerary(ctx), args.name);
+      const filename = args.segments?.length || !ctx.itinerary ? `${slugify(args.name ?? "camino-track")}.gpx` : gpxFilename(ctx.itinerary);
+      const url = toDataUrl(gpx);
+      return { data: { url, filename }, uiActions: [{ type: "download", url, filename }] };
     },
   } satisfies ToolDef<typeof ExportGpxInput, typeof ExportGpxOutput>,
 
+  "export.ics": {
+    name: "export.ics",
+    input: ExportIcsInput,
+    output: ExportIcsOutput,
+    run: async (args, ctx) => {
+      const shown = requireItinerary(ctx);
+      const startDate = args.startDate ?? ctx.startDate;
+      const itinerary = shown[0].date || !isIsoDate(startDate) ? shown : withDates(shown, startDate);
+      const filename = icsFilename(itinerary);
+      const url = toDataUrl(itineraryToIcs(itinerary, args.name), "text/calendar");
+      return { data: { url, filename }, uiActions: [{ type: "download", url, filename }] };
+    },
+  } satisfies ToolDef<typeof ExportIcsInput, typeof ExportIcsOutput>,
+
+  /** Changes to the itinerary on screen; only the days an edit touches are rebuilt */
+  "itinerary.edit": {
+    name: "itinerary.edit",
+    input: ItineraryEditInput,
+    output: ItineraryEditOutput,
+    coerceAsync: async (raw: unknown) =>
+      raw && typeof raw === "object" && "op" in raw ? { edits: [raw] } : raw, // a lone edit
+    run: async (args, ctx) => {
+      const { itinerary, changes } = applyEdits(requireItinerary(ctx), args.edits, ctx.preferences);
+      return {
+        itinerary,
+        data: { changes },
+        uiActions: [{ type: "drawRoute", geojson: itineraryToGeojson(itinerary) }],
+      };
+    },
+  } satisfies ToolDef<typeof ItineraryEditInput, typeof ItineraryEditOutput>,
+
   "places.search": {
     name: "places.search",
     input: PlacesSearchInput,
-    run: async () => ({ data: [] as unknown }),
-  } satisfies ToolDef<typeof PlacesSearchInput>,
+    output: PlacesSearchOutput,
+    coerceAsync: async (raw: unknown, ctx: ToolContext) => {
+      if (!raw || typeof raw !== "object") return raw;
+      const args = { ...(raw as Record<string, unknown>) };
+      const near = args.near as string | number[] | { lat?: number; lon?: number; lng?: number } | undefined;
+      // Accept near as a town name or {lat, lon}, like map.focus
+      if (typeof near === "string") {
+        const c = await lookupTownCoords(near, ctx.route);
+        args.near = c ? [c.lon, c.lat] : undefined;
+      } else if (near && !Array.isArray(near)) {
+        args.near = [Number(near.lon ?? near.lng), Number(near.lat)];
+      }
+      const along = args.along as { route?: string } | undefined;
+      if (along && typeof along === "object" && !along.route && ctx.route) args.along = { ...along, route: ctx.route };
+      return args;
+    },
+    run: async (args) => {
+      const hits = searchPlaces(args);
+      return {
+        data: hits,
+        uiActions: hits.length ? [{ type: "drawMarkers", layer: "places", markers: hits.map(placeMarker) }] : [],
+      };
+    },
+  } satisfies ToolDef<typeof PlacesSearchInput, typeof PlacesSearchOutput>,
+
+  "services.along": {
+    name: "services.along",
+    input: ServicesAlongInput,
+    output: ServicesAlongOutput,
+    coerceAsync: async (raw: unknown, ctx: ToolContext) =>
+      raw && typeof raw === "object" && !("route" in raw) && ctx.route ? { ...raw, route: ctx.route } : raw,
+    run: async (args) => {
+      const hits = servicesAlong({ route: args.route, from: args.from, to: args.to, maxOffKm: args.maxOffKm }, args.kinds);
+      return {
+        data: hits,
+        uiActions: [{ type: "drawServices", services: hits.map(h => serviceMarker(h, args.from)) }],
+      };
+    },
+  } satisfies ToolDef<typeof ServicesAlongInput, typeof ServicesAlongOutput>,
+
+  "lodging.hold": {
+    name: "lodging.hold",
+    input: LodgingHoldInput,
+    output: LodgingOutput,
+    run: async (args, ctx) => {
+      const { itinerary, reservations, skipped } = await holdBeds(requireItinerary(ctx), getBookingProvider(), {
+        days: args.days, guests: args.guests, preferences: ctx.preferences,
+      });
+      return { itinerary, data: { reservations, skipped } };
+    },
+  } satisfies ToolDef<typeof LodgingHoldInput, typeof LodgingOutput>,
+
+  /** Books for real: the executor always pauses for the user's approval before this step */
+  "lodging.confirm": {
+    name: "lodging.confirm",
+    input: LodgingConfirmInput,
+    output: LodgingOutput,
+    run: async (args, ctx) => {
+      const { itinerary, reservations, skipped } = await confirmBeds(requireItinerary(ctx), getBookingProvider(), args.days);
+      return { itinerary, data: { reservations, skipped } };
+    },
+  } satisfies ToolDef<typeof LodgingConfirmInput, typeof LodgingOutput>,
+
+  "lodging.cancel": {
+    name: "lodging.cancel",
+    input: LodgingCancelInput,
+    output: LodgingOutput,
+    run: async (args, ctx) => {
+      const { itinerary, reservations, skipped } = await cancelBeds(requireItinerary(ctx), getBookingProvider(), args.days);
+      return { itinerary, data: { reservations, skipped } };
+    },
+  } satisfies ToolDef<typeof LodgingCancelInput, typeof LodgingOutput>,
 } as const;
 
 export type ToolKey = keyof typeof toolRegistry;
 
 export async function runTool(name: ToolKey, rawArgs: unknown, ctx: ToolContext) {
-  const tool = toolRegistry[name];
+  // Widen to the common shape so optional hooks like coerceAsync are reachable
+  const tool = toolRegistry[name] as ToolDef<z.ZodTypeAny, z.ZodTypeAny | undefined>;
   if (!tool) throw new Error(`Unknown tool: ${name}`);
 
   // Async coercion BEFORE validation (lets us normalize loose planner args)
@@ -422,6 +603,6 @@ export async function runTool(name: ToolKey, rawArgs: unknown, ctx: ToolContext)
   const parsed = tool.input.safeParse(prepared);
   if (!parsed.success) throw new Error(`Invalid args for ${name}: ${parsed.error.message}`);
 
-  const res = await tool.run(parsed.data as any, ctx);
+  const res = await tool.run(parsed.data, ctx);
   return res;
 }
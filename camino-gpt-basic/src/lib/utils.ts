@@ -15,4 +15,21 @@ export function formatDistance(km: number | undefined | null): string | null {
 export function formatDistanceWithUnit(km: number | undefined | null, fallback = "Distance n/a"): string {
   const formatted = formatDistance(km);
   return formatted ? `${formatted} km` : fallback;
-}
\ No newline at end of file
+}
+/** "+420 m −310 m"; approximate climbs (town altitudes only) read "≈ +0 m −426 m" so a flat 0 isn't taken as measured */
+export function formatClimb(leg: { ascentM?: number; descentM?: number; climbApprox?: boolean }, sep = " "): string {
+  if (leg.ascentM === undefined && leg.descentM === undefined) return "";
+  const up = leg.ascentM ?? 0;
+  const down = leg.descentM ?? 0;
+  if (leg.climbApprox) return `≈ +${up} m${sep}−${down} m`;
+  return [up ? `+${up} m` : "", down ? `−${down} m` : ""].filter(Boolean).join(sep);
+}
+
+/** Whole-unit money ("€430", "US$465") */
+export function formatMoney(amount: number, currency = "EUR"): string {
+  return new Intl.NumberFormat("en", { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+}
+
+/** "Palas de Rei › Arzúa" → "palas-de-rei-arzua" (ids, anchors, file names) */
+export const slugify = (s: string) =>
+  s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");